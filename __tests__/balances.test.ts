@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import {
+  balancesContext,
+  formatBalance,
+  getBalances,
+  getChainBalances,
+} from "../util/balances";
+import { getReadProvider } from "../util/chains";
+import { ERC20_ABI } from "../util/abi";
+import { getRegisteredTokens } from "../util/tokens";
+import { MockProvider, OWNER } from "./helpers/wallet";
+
+jest.mock("../util/chains", () => ({
+  ...jest.requireActual("../util/chains"),
+  getReadProvider: jest.fn(),
+}));
+
+const SEPOLIA = 11155111;
+const USDC = "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238";
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+
+// Answers `balanceOf` with 2.5 units of USDC and nothing of other tokens
+const sepolia = () =>
+  new MockProvider(SEPOLIA, {
+    eth_getBalance: () => ethers.utils.parseEther("0.5").toHexString(),
+    eth_call: (params) => {
+      const { to, data } = params[0] as { to: string; data: string };
+      const [owner] = erc20.decodeFunctionData("balanceOf", data);
+      expect(owner).toBe(OWNER);
+      return ethers.utils.defaultAbiCoder.encode(
+        ["uint256"],
+        [ethers.utils.getAddress(to) === USDC ? 2500000 : 0]
+      );
+    },
+  });
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("getChainBalances", () => {
+  it("reads the native balance and every registered token", async () => {
+    jest.mocked(getReadProvider).mockReturnValue(sepolia());
+
+    const balances = await getChainBalances(OWNER, "sepolia");
+
+    expect(balances).toHaveLength(getRegisteredTokens(SEPOLIA).length + 1);
+    expect(balances.map(formatBalance).slice(0, 2)).toEqual(["0.5", "2.5"]);
+    expect(balances[0]).toMatchObject({ symbol: "ETH" });
+    expect(balances[0]?.address).toBeUndefined();
+  });
+});
+
+describe("getBalances", () => {
+  it("leaves out chains whose RPC fails", async () => {
+    jest
+      .mocked(getReadProvider)
+      .mockImplementation((chainId) =>
+        chainId === SEPOLIA ? sepolia() : new MockProvider(chainId)
+      );
+
+    const balances = await getBalances(OWNER, ["sepolia", "mainnet"]);
+
+    expect(balances.every(({ chain }) => chain === "sepolia")).toBe(true);
+    expect(console.error).toHaveBeenCalledWith(
+      "Failed to load balances on mainnet:",
+      expect.any(Error)
+    );
+  });
+});
+
+describe("balancesContext", () => {
+  it("keeps non-zero balances with their decimals applied", async () => {
+    jest.mocked(getReadProvider).mockReturnValue(sepolia());
+
+    const context = balancesContext(await getChainBalances(OWNER, "sepolia"));
+
+    expect(context).toEqual([
+      { chain: "sepolia", token: "ETH", symbol: "ETH", amount: "0.5" },
+      { chain: "sepolia", token: USDC, symbol: "USDC", amount: "2.5" },
+    ]);
+  });
+});
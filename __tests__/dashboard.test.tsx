@@ -0,0 +1,597 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React from "react";
+import { ethers } from "ethers";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import DashboardPage from "../pages/dashboard";
+import {
+  INTENT_SCHEMA_VERSION,
+  TransferIntent,
+  validateIntent,
+} from "../util/intent";
+import { previewTransaction, sendTransaction } from "../util/utils";
+import { trackTransaction } from "../util/tracker";
+import { getBalances } from "../util/balances";
+import { decodePaymentRequest } from "../util/paymentRequest";
+import { loadHistory, saveHistory } from "../util/history";
+import { mintBridge } from "../util/cctp";
+import {
+  cancelAuthorizedRuns,
+  createSchedule,
+  loadSchedules,
+  saveSchedules,
+} from "../util/schedules";
+import { loadSelectedWallet } from "../util/wallets";
+import { mockConnectedWallet, MockProvider, RECIPIENT } from "./helpers/wallet";
+
+const mockRouter = {
+  push: jest.fn(),
+  replace: jest.fn(),
+  query: {} as Record<string, string>,
+};
+
+jest.mock("next/router", () => ({
+  useRouter: () => mockRouter,
+}));
+
+// The same list on every render, as Privy does
+const wallets = [
+  mockConnectedWallet(new MockProvider(11155111)),
+  mockConnectedWallet(new MockProvider(11155111), {
+    address: "0x3333333333333333333333333333333333333333",
+    walletClientType: "metamask",
+    connectorType: "injected",
+    meta: { name: "MetaMask", id: "io.metamask" },
+  }),
+];
+
+jest.mock("@privy-io/react-auth", () => ({
+  usePrivy: () => ({
+    ready: true,
+    authenticated: true,
+    logout: jest.fn(),
+    getAccessToken: async () => "token",
+  }),
+  useWallets: () => ({ wallets }),
+}));
+
+jest.mock("../util/utils", () => ({
+  ...jest.requireActual("../util/utils"),
+  previewTransaction: jest.fn(),
+  sendTransaction: jest.fn(),
+}));
+
+jest.mock("../util/preflight", () => ({
+  ...jest.requireActual("../util/preflight"),
+  preflightTransaction: jest.fn(async () => ({
+    issues: [],
+    estimatedFee: "0.0001",
+  })),
+}));
+
+jest.mock("../util/tracker", () => ({
+  ...jest.requireActual("../util/tracker"),
+  trackTransaction: jest.fn(),
+  currentBlock: jest.fn(async () => 100),
+}));
+
+jest.mock("../util/balances", () => ({
+  ...jest.requireActual("../util/balances"),
+  getBalances: jest.fn(),
+}));
+
+jest.mock("../util/cctp", () => ({
+  ...jest.requireActual("../util/cctp"),
+  isMinted: jest.fn(async () => false),
+  mintBridge: jest.fn(),
+}));
+
+jest.mock("../util/schedules", () => ({
+  ...jest.requireActual("../util/schedules"),
+  cancelAuthorizedRuns: jest.fn(async () => []),
+}));
+
+jest.mock("../util/paymentRequest", () => ({
+  ...jest.requireActual("../util/paymentRequest"),
+  decodePaymentRequest: jest.fn(),
+}));
+
+const USDC = {
+  address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+  symbol: "USDC",
+  name: "USD Coin",
+  decimals: 6,
+};
+
+const transfer = {
+  schema_version: INTENT_SCHEMA_VERSION,
+  transaction_type: "transfer",
+  response: {
+    recipientAddress: RECIPIENT,
+    amount: "1",
+    token: "USDC",
+    chain: "sepolia",
+  },
+};
+
+const answer = (body: unknown, status = 200) =>
+  jest.mocked(global.fetch).mockResolvedValue({
+    ok: status === 200,
+    status,
+    json: async () => body,
+  } as Response);
+
+const submit = async (text: string) => {
+  fireEvent.change(screen.getByRole("textbox"), { target: { value: text } });
+  fireEvent.click(screen.getByRole("button", { name: "Submit" }));
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  localStorage.clear();
+  mockRouter.query = {};
+  global.fetch = jest.fn();
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  jest.mocked(previewTransaction).mockResolvedValue({
+    recipient: RECIPIENT,
+    recipientAddress: RECIPIENT,
+    chain: "sepolia",
+    token: USDC,
+    amount: "1",
+  });
+  jest.mocked(getBalances).mockResolvedValue([
+    {
+      chain: "sepolia",
+      symbol: "ETH",
+      decimals: 18,
+      amount: ethers.constants.Zero,
+    },
+    {
+      chain: "sepolia",
+      symbol: "USDC",
+      address: USDC.address,
+      decimals: 6,
+      amount: ethers.BigNumber.from(2500000),
+    },
+  ]);
+  jest.mocked(trackTransaction).mockResolvedValue({
+    status: 1,
+    transactionHash: "0xhash",
+  } as Awaited<ReturnType<typeof trackTransaction>>);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("DashboardPage", () => {
+  it("sends a transfer once it is reviewed", async () => {
+    answer(transfer);
+    jest.mocked(sendTransaction).mockResolvedValue({
+      hash: "0xhash",
+    } as Awaited<ReturnType<typeof sendTransaction>>);
+    render(<DashboardPage />);
+    await waitFor(() => expect(getBalances).toHaveBeenCalledTimes(1));
+
+    await submit("send 1 USDC to 0x2222 on sepolia");
+    expect(await screen.findByText("Review your intent")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/intent",
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: "Bearer token" }),
+        body: JSON.stringify({
+          question: "send 1 USDC to 0x2222 on sepolia",
+          schema_version: INTENT_SCHEMA_VERSION,
+          history: [],
+          balances: [
+            {
+              chain: "sepolia",
+              token: USDC.address,
+              symbol: "USDC",
+              amount: "2.5",
+            },
+          ],
+        }),
+      })
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Confirm" }));
+    expect(await screen.findByText(/Transfer confirmed!/)).toBeInTheDocument();
+    expect(sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ wallet: wallets[0] }),
+      RECIPIENT,
+      "1",
+      "sepolia",
+      USDC.address
+    );
+    // Replacements are looked for from before the transfer was sent
+    expect(trackTransaction).toHaveBeenCalledWith(
+      "0xhash",
+      "sepolia",
+      expect.objectContaining({ fromBlock: 100 })
+    );
+    // Balances are reloaded once the transfer is confirmed
+    expect(getBalances).toHaveBeenCalledTimes(2);
+  });
+
+  it("labels the fields of an intent being edited", async () => {
+    answer(transfer);
+    render(<DashboardPage />);
+    await submit("send 1 USDC to 0x2222 on sepolia");
+    await screen.findByText("Review your intent");
+
+    fireEvent.click(screen.getByRole("button", { name: "Edit" }));
+
+    expect(screen.getByLabelText("Recipient")).toHaveValue(RECIPIENT);
+    expect(screen.getByLabelText("Amount")).toHaveValue("1");
+    expect(screen.getByLabelText("Token")).toHaveValue("USDC");
+    expect(screen.getByLabelText("Chain")).toHaveValue("sepolia");
+  });
+
+  it("sends from the wallet named in the request", async () => {
+    answer(transfer);
+    jest.mocked(sendTransaction).mockResolvedValue({
+      hash: "0xhash",
+    } as Awaited<ReturnType<typeof sendTransaction>>);
+    render(<DashboardPage />);
+
+    await submit("send 1 USDC to 0x2222 on sepolia from my MetaMask wallet");
+    fireEvent.click(await screen.findByRole("button", { name: "Confirm" }));
+
+    expect(await screen.findByText(/Transfer confirmed!/)).toBeInTheDocument();
+    expect(sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ wallet: wallets[1] }),
+      RECIPIENT,
+      "1",
+      "sepolia",
+      USDC.address
+    );
+    // Only for that request, the chosen wallet sends the next one
+    expect(screen.getByRole("combobox")).toHaveValue(wallets[0]!.address);
+    expect(loadSelectedWallet()).toBeUndefined();
+  });
+
+  it("remembers the chosen wallet", async () => {
+    const { unmount } = render(<DashboardPage />);
+    fireEvent.change(screen.getByRole("combobox"), {
+      target: { value: wallets[1]!.address },
+    });
+    unmount();
+
+    render(<DashboardPage />);
+
+    expect(await screen.findByRole("combobox")).toHaveValue(
+      wallets[1]!.address
+    );
+  });
+
+  it("asks about a named wallet that isn't connected", async () => {
+    answer(transfer);
+    render(<DashboardPage />);
+
+    await submit("send 1 USDC to 0x2222 on sepolia from my ledger wallet");
+
+    expect(
+      await screen.findByText(/None of your connected wallets matches "ledger"/)
+    ).toBeInTheDocument();
+    expect(screen.queryByText("Review your intent")).not.toBeInTheDocument();
+  });
+
+  it("loads the transfer paying a request link", async () => {
+    jest.mocked(decodePaymentRequest).mockReturnValue({
+      recipient: RECIPIENT,
+      chainId: 11155111,
+      token: USDC.address,
+      amount: "1",
+      memo: "Lunch",
+      nonce: `0x${"00".repeat(32)}`,
+      signature: "0x",
+    });
+    jest.mocked(sendTransaction).mockResolvedValue({
+      hash: "0xhash",
+    } as Awaited<ReturnType<typeof sendTransaction>>);
+    mockRouter.query = { request: "encoded" };
+    render(<DashboardPage />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Confirm" }));
+
+    expect(await screen.findByText(/Transfer confirmed!/)).toBeInTheDocument();
+    expect(decodePaymentRequest).toHaveBeenCalledWith("encoded");
+    expect(mockRouter.replace).toHaveBeenCalledWith("/dashboard", undefined, {
+      shallow: true,
+    });
+    expect(previewTransaction).toHaveBeenCalledWith(
+      RECIPIENT,
+      "1",
+      "sepolia",
+      USDC.address,
+      []
+    );
+    expect(sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ wallet: wallets[0] }),
+      RECIPIENT,
+      "1",
+      "sepolia",
+      USDC.address
+    );
+  });
+
+  it("schedules a transfer instead of sending it", async () => {
+    const at = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    answer({ ...transfer, schedule: { at: at.toISOString(), every: "month" } });
+    render(<DashboardPage />);
+
+    await submit("send 1 USDC to 0x2222 on sepolia every month from tomorrow");
+
+    expect(
+      await screen.findByText(/repeating every month/)
+    ).toBeInTheDocument();
+    expect(loadSchedules(wallets[0]!.address)).toEqual([
+      expect.objectContaining({
+        text: "send 1 USDC to 0x2222 on sepolia every month from tomorrow",
+        nextRun: at.getTime(),
+        every: "month",
+      }),
+    ]);
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it("asks to sign a scheduled transfer once it is due", async () => {
+    const due = Date.now() - 60 * 1000;
+    saveSchedules(wallets[0]!.address, [
+      createSchedule(
+        "send 1 USDC to 0x2222 on sepolia weekly",
+        validateIntent("transfer", transfer.response) as TransferIntent,
+        { at: due, every: "week" }
+      ),
+    ]);
+    jest.mocked(sendTransaction).mockResolvedValue({
+      hash: "0xhash",
+    } as Awaited<ReturnType<typeof sendTransaction>>);
+    render(<DashboardPage />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Review" }));
+    fireEvent.click(await screen.findByRole("button", { name: "Confirm" }));
+
+    expect(await screen.findByText(/Transfer confirmed!/)).toBeInTheDocument();
+    const [schedule] = loadSchedules(wallets[0]!.address);
+    expect(schedule!.runs).toEqual([
+      { at: due, status: "confirmed", hash: "0xhash", fromBlock: 100 },
+    ]);
+    expect(schedule!.nextRun).toBe(due + 7 * 24 * 60 * 60 * 1000);
+    expect(
+      screen.queryByRole("button", { name: "Review" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("cancels an authorized run the relayer failed to send", async () => {
+    process.env["NEXT_PUBLIC_RELAYER_URL"] = "https://relayer.test";
+    const due = Date.now() - 60 * 1000;
+    const schedule = createSchedule(
+      "send 1 USDC to 0x2222 on sepolia weekly",
+      validateIntent("transfer", transfer.response) as TransferIntent,
+      { at: due, every: "week" }
+    );
+    const authorized = {
+      at: due,
+      authorization: {
+        chainId: 11155111,
+        token: USDC.address,
+        from: wallets[0]!.address,
+        to: RECIPIENT,
+        value: "1000000",
+        validAfter: Math.floor(due / 1000) - 1,
+        validBefore: Math.floor(due / 1000) + 24 * 60 * 60,
+        nonce: `0x${"33".repeat(32)}`,
+        signature: "0x",
+      },
+    };
+    saveSchedules(wallets[0]!.address, [
+      { ...schedule, authorized: [authorized] },
+    ]);
+    // The relayer may have submitted it before failing
+    answer({}, 502);
+    try {
+      render(<DashboardPage />);
+
+      expect(
+        await screen.findByText(/its authorization was cancelled/)
+      ).toBeInTheDocument();
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://relayer.test",
+        expect.anything()
+      );
+      expect(cancelAuthorizedRuns).toHaveBeenCalledWith(expect.anything(), [
+        authorized,
+      ]);
+      const [saved] = loadSchedules(wallets[0]!.address);
+      expect(saved!.authorized).toEqual([]);
+      expect(saved!.runs).toEqual([]);
+    } finally {
+      delete process.env["NEXT_PUBLIC_RELAYER_URL"];
+    }
+  });
+
+  it("settles a scheduled run left pending by a reload", async () => {
+    const sentAt = Date.now() - 60 * 1000;
+    const schedule = createSchedule(
+      "send 1 USDC to 0x2222 on sepolia weekly",
+      validateIntent("transfer", transfer.response) as TransferIntent,
+      { at: sentAt + 7 * 24 * 60 * 60 * 1000, every: "week" }
+    );
+    saveSchedules(wallets[0]!.address, [
+      {
+        ...schedule,
+        runs: [
+          { at: sentAt, status: "pending", hash: "0xrelayed", automatic: true },
+        ],
+      },
+    ]);
+    render(<DashboardPage />);
+
+    await waitFor(() =>
+      expect(loadSchedules(wallets[0]!.address)[0]!.runs).toEqual([
+        { at: sentAt, status: "confirmed", hash: "0xhash", automatic: true },
+      ])
+    );
+    expect(trackTransaction).toHaveBeenCalledWith(
+      "0xrelayed",
+      "sepolia",
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it("stops polling pending history entries when unmounted", async () => {
+    saveHistory(wallets[0]!.address, [
+      {
+        id: "0xpending",
+        kind: "transaction",
+        text: "send 1 USDC to 0x2222 on sepolia",
+        intent: validateIntent("transfer", transfer.response),
+        chain: "sepolia",
+        status: "pending",
+        createdAt: Date.now(),
+      },
+    ]);
+    jest.mocked(trackTransaction).mockReturnValue(new Promise(() => {}));
+    const { unmount } = render(<DashboardPage />);
+
+    await waitFor(() => expect(trackTransaction).toHaveBeenCalled());
+    const [hash, , options] = jest.mocked(trackTransaction).mock.calls[0]!;
+    expect(hash).toBe("0xpending");
+    expect(options?.signal?.aborted).toBe(false);
+    unmount();
+    expect(options?.signal?.aborted).toBe(true);
+  });
+
+  it("finishes the mint of a burned bridge from the history", async () => {
+    saveHistory(wallets[0]!.address, [
+      {
+        id: "0xburn",
+        kind: "transaction",
+        text: "bridge 1 USDC to base-sepolia",
+        intent: {
+          transaction_type: "bridge",
+          recipientAddress: RECIPIENT,
+          chain: "sepolia",
+          destinationChain: "base-sepolia",
+          amount: "1",
+        },
+        chain: "sepolia",
+        status: "burned",
+        createdAt: Date.now(),
+        burnMessage: "0x1234",
+      },
+    ]);
+    jest.mocked(mintBridge).mockResolvedValue("0xmint");
+    render(<DashboardPage />);
+
+    expect(screen.getByText(/burned, awaiting mint/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Finish mint" }));
+
+    expect(await screen.findByText(/Bridge complete!/)).toBeInTheDocument();
+    expect(mintBridge).toHaveBeenCalledWith(
+      expect.objectContaining({ wallet: wallets[0] }),
+      "0x1234",
+      "sepolia",
+      "base-sepolia",
+      expect.anything()
+    );
+    expect(loadHistory(wallets[0]!.address)[0]!.status).toBe("confirmed");
+  });
+
+  it("offers to try again when the wallet rejects the transfer", async () => {
+    answer(transfer);
+    jest
+      .mocked(sendTransaction)
+      .mockRejectedValue({ code: 4001, message: "User rejected the request." });
+    render(<DashboardPage />);
+
+    await submit("send 1 USDC to 0x2222 on sepolia");
+    fireEvent.click(await screen.findByRole("button", { name: "Confirm" }));
+
+    expect(
+      await screen.findByText("You rejected the request in your wallet.")
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Try again" })
+    ).toBeInTheDocument();
+    expect(trackTransaction).not.toHaveBeenCalled();
+  });
+
+  it("keeps the question when the backend fails", async () => {
+    answer({}, 503);
+    render(<DashboardPage />);
+
+    await submit("send 1 USDC to 0x2222 on sepolia");
+
+    expect(
+      await screen.findByText(/The intent service is unavailable right now/)
+    ).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "OK" }));
+    expect(screen.getByRole("textbox")).toHaveValue(
+      "send 1 USDC to 0x2222 on sepolia"
+    );
+  });
+
+  it("asks for the details that are missing or invalid", async () => {
+    answer({ ...transfer, response: { ...transfer.response, amount: "" } });
+    render(<DashboardPage />);
+
+    await submit("send USDC to 0x2222 on sepolia");
+
+    expect(
+      await screen.findByText(/I need a few more details/)
+    ).toBeInTheDocument();
+    expect(screen.queryByText("Review your intent")).not.toBeInTheDocument();
+  });
+
+  it("shows an error for an unknown transaction type", async () => {
+    answer({ ...transfer, transaction_type: "stake" });
+    render(<DashboardPage />);
+
+    await submit("stake 1 ETH");
+
+    expect(
+      await screen.findByText(/Could not understand your intent/)
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(/Unsupported transaction type "stake"/)
+    ).toBeInTheDocument();
+    expect(screen.queryByText(/I need a few more details/)).toBeNull();
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it("shows an error for an unsupported schema version", async () => {
+    answer({ ...transfer, schema_version: INTENT_SCHEMA_VERSION + 1 });
+    render(<DashboardPage />);
+
+    await submit("send 1 USDC to 0x2222 on sepolia");
+
+    expect(
+      await screen.findByText(/Could not understand your intent/)
+    ).toBeInTheDocument();
+    expect(screen.queryByText(/I need a few more details/)).toBeNull();
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { EIP3009_ABI } from "../util/abi";
+import { getReadProvider } from "../util/chains";
+import { RelayerError } from "../util/errors";
+import {
+  cancelTransferAuthorization,
+  getAuthorizationDomain,
+  sendGaslessTransfer,
+  shouldSendGasless,
+} from "../util/gasless";
+import { PreflightResult } from "../util/preflight";
+import { httpRelayer, localRelayer } from "../util/relayer";
+import { findToken } from "../util/tokens";
+import {
+  mockAdapter,
+  MockProvider,
+  mockWallet,
+  OWNER,
+  RECIPIENT,
+} from "./helpers/wallet";
+
+jest.mock("../util/chains", () => ({
+  ...jest.requireActual("../util/chains"),
+  getReadProvider: jest.fn(),
+}));
+
+const SEPOLIA = 11155111;
+const USDC = findToken(SEPOLIA, "USDC")!;
+const eip3009 = new ethers.utils.Interface(EIP3009_ABI);
+const domain = {
+  name: "USDC",
+  version: "2",
+  chainId: SEPOLIA,
+  verifyingContract: USDC.address,
+};
+const SIGNATURE = ethers.utils.joinSignature({
+  r: `0x${"11".repeat(32)}`,
+  s: `0x${"22".repeat(32)}`,
+  v: 27,
+});
+
+// Answers the EIP-3009 reads of USDC, or fails them for tokens without it
+const usdcCall = (params: unknown[]) => {
+  const { to, data } = params[0] as { to: string; data: string };
+  if (ethers.utils.getAddress(to) !== USDC.address) {
+    throw new Error("execution reverted");
+  }
+  const call = eip3009.parseTransaction({ data });
+  const results: Record<string, unknown[]> = {
+    name: [domain.name],
+    version: [domain.version],
+    DOMAIN_SEPARATOR: [ethers.utils._TypedDataEncoder.hashDomain(domain)],
+    authorizationState: [false],
+  };
+  return eip3009.encodeFunctionResult(call.name, results[call.name]);
+};
+
+const usdcProvider = () =>
+  new MockProvider(SEPOLIA, {
+    eth_call: usdcCall,
+    eth_signTypedData_v4: () => SIGNATURE,
+  });
+
+// A node that accepts any transaction, recording what was sent
+function relayerNode(sent: Record<string, string>[]) {
+  const hash = `0x${"ab".repeat(32)}`;
+  return new MockProvider(SEPOLIA, {
+    eth_accounts: () => [RECIPIENT],
+    eth_sendTransaction: (params) => {
+      sent.push(params[0] as Record<string, string>);
+      return hash;
+    },
+    eth_getTransactionByHash: () => ({
+      hash,
+      from: RECIPIENT,
+      to: USDC.address,
+      blockHash: null,
+      blockNumber: null,
+      transactionIndex: null,
+      nonce: "0x0",
+      gas: "0x5208",
+      gasPrice: "0x1",
+      value: "0x0",
+      input: sent[0]?.["data"] ?? "0x",
+    }),
+  });
+}
+
+const noGas: PreflightResult = {
+  issues: [
+    {
+      reason: "insufficient_gas",
+      message: "insufficient ETH for gas: have 0, need 0.0001",
+    },
+  ],
+  estimatedFee: "0.0001",
+};
+
+beforeEach(() => {
+  jest.mocked(getReadProvider).mockReturnValue(usdcProvider());
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("getAuthorizationDomain", () => {
+  it("returns the domain of tokens taking authorizations", async () => {
+    expect(
+      await getAuthorizationDomain(USDC.address, SEPOLIA, usdcProvider())
+    ).toEqual(domain);
+  });
+
+  it("returns null for other tokens", async () => {
+    const weth = findToken(SEPOLIA, "WETH")!;
+    expect(
+      await getAuthorizationDomain(weth.address, SEPOLIA, usdcProvider())
+    ).toBeNull();
+  });
+});
+
+describe("shouldSendGasless", () => {
+  const relayer = { name: "Test", relay: jest.fn() };
+
+  it("relays when there is no gas", async () => {
+    const adapter = mockAdapter(undefined, undefined, relayer);
+    expect(await shouldSendGasless(adapter, "sepolia", USDC, noGas)).toBe(true);
+  });
+
+  it("sends normally with gas or without a relayer", async () => {
+    const withGas = { issues: [], estimatedFee: "0.0001" };
+    expect(
+      await shouldSendGasless(
+        mockAdapter(undefined, undefined, relayer),
+        "sepolia",
+        USDC,
+        withGas
+      )
+    ).toBe(false);
+    expect(
+      await shouldSendGasless(mockAdapter(undefined), "sepolia", USDC, noGas)
+    ).toBe(false);
+  });
+});
+
+describe("sendGaslessTransfer", () => {
+  it("signs an authorization and has the relayer submit it", async () => {
+    const sent: Record<string, string>[] = [];
+    const node = relayerNode(sent);
+    const wallet = mockWallet(usdcProvider());
+    const adapter = mockAdapter(
+      wallet,
+      undefined,
+      localRelayer(async () => node.getSigner())
+    );
+
+    const hash = await sendGaslessTransfer(
+      adapter,
+      RECIPIENT,
+      "1.5",
+      "sepolia",
+      USDC
+    );
+
+    expect(hash).toBe(`0x${"ab".repeat(32)}`);
+    expect(wallet.switchChain).toHaveBeenCalledWith(SEPOLIA);
+    expect(sent).toHaveLength(1);
+    const call = eip3009.parseTransaction({ data: sent[0]!["data"]! });
+    expect(call.name).toBe("transferWithAuthorization");
+    expect(call.args["from"]).toBe(OWNER);
+    expect(call.args["to"]).toBe(RECIPIENT);
+    expect(call.args["value"].toString()).toBe("1500000");
+    const { v, r, s } = call.args;
+    expect(ethers.utils.joinSignature({ v, r, s })).toBe(SIGNATURE);
+  });
+
+  it("needs a relayer", async () => {
+    const adapter = mockAdapter(mockWallet(usdcProvider()));
+    await expect(
+      sendGaslessTransfer(adapter, RECIPIENT, "1", "sepolia", USDC)
+    ).rejects.toThrow("No relayer");
+  });
+});
+
+describe("cancelTransferAuthorization", () => {
+  const authorization = {
+    chainId: SEPOLIA,
+    token: USDC.address,
+    from: OWNER,
+    to: RECIPIENT,
+    value: "1500000",
+    validAfter: 0,
+    validBefore: 1,
+    nonce: `0x${"33".repeat(32)}`,
+    signature: SIGNATURE,
+  };
+
+  // The wallet's node, answering USDC's reads with the authorization `used`
+  function walletNode(sent: Record<string, string>[], used = false) {
+    const node = relayerNode(sent);
+    Object.assign(node.handlers, {
+      eth_accounts: () => [OWNER],
+      eth_signTypedData_v4: () => SIGNATURE,
+      eth_call: (params: unknown[]) => {
+        const { data } = params[0] as { data: string };
+        return eip3009.parseTransaction({ data }).name === "authorizationState"
+          ? ethers.utils.defaultAbiCoder.encode(["bool"], [used])
+          : usdcCall(params);
+      },
+    });
+    return node;
+  }
+
+  it("signs a cancellation and sends it from the wallet", async () => {
+    const sent: Record<string, string>[] = [];
+    const wallet = mockWallet(walletNode(sent));
+
+    const tx = await cancelTransferAuthorization(
+      mockAdapter(wallet),
+      authorization
+    );
+
+    expect(tx?.hash).toBe(`0x${"ab".repeat(32)}`);
+    expect(wallet.switchChain).toHaveBeenCalledWith(SEPOLIA);
+    expect(sent).toHaveLength(1);
+    const call = eip3009.parseTransaction({ data: sent[0]!["data"]! });
+    expect(call.name).toBe("cancelAuthorization");
+    expect(call.args["authorizer"]).toBe(OWNER);
+    expect(call.args["nonce"]).toBe(authorization.nonce);
+    const { v, r, s } = call.args;
+    expect(ethers.utils.joinSignature({ v, r, s })).toBe(SIGNATURE);
+  });
+
+  it("leaves authorizations that were already used", async () => {
+    const sent: Record<string, string>[] = [];
+    const wallet = mockWallet(walletNode(sent, true));
+
+    expect(
+      await cancelTransferAuthorization(mockAdapter(wallet), authorization)
+    ).toBeUndefined();
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe("httpRelayer", () => {
+  const authorization = {
+    chainId: SEPOLIA,
+    token: USDC.address,
+    from: OWNER,
+    to: RECIPIENT,
+    value: "1000000",
+    validAfter: 0,
+    validBefore: 1,
+    nonce: ethers.constants.HashZero,
+    signature: SIGNATURE,
+  };
+
+  it("posts the authorization and returns the relayer's hash", async () => {
+    const hash = `0x${"cd".repeat(32)}`;
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ hash }),
+    });
+
+    expect(
+      await httpRelayer("https://relayer.test/").relay(authorization)
+    ).toBe(hash);
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://relayer.test/",
+      expect.objectContaining({ body: JSON.stringify(authorization) })
+    );
+  });
+
+  it("fails with a RelayerError", async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503 });
+
+    await expect(
+      httpRelayer("https://relayer.test/").relay(authorization)
+    ).rejects.toThrow(RelayerError);
+  });
+});
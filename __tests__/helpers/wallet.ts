@@ -0,0 +1,109 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { ExecutionAdapter, ExecutionWallet } from "../../util/execution";
+import { OrderBook } from "../../util/orderBook";
+import { Relayer } from "../../util/relayer";
+
+export const OWNER = "0x1111111111111111111111111111111111111111";
+export const RECIPIENT = "0x2222222222222222222222222222222222222222";
+
+type Handler = (params: unknown[]) => unknown;
+
+/**
+ * JSON-RPC provider answering from `handlers` by method, so that nothing
+ * goes over the network. Unhandled methods fail the call.
+ */
+export class MockProvider extends ethers.providers.JsonRpcProvider {
+  readonly handlers: Record<string, Handler>;
+
+  constructor(chainId: number, handlers: Record<string, Handler> = {}) {
+    super(undefined, chainId);
+    this.handlers = {
+      eth_chainId: () => ethers.utils.hexValue(chainId),
+      eth_accounts: () => [OWNER],
+      eth_blockNumber: () => "0x1",
+      eth_estimateGas: () => "0x5208",
+      ...handlers,
+    };
+  }
+
+  override async send(method: string, params: unknown[]): Promise<unknown> {
+    const handler = this.handlers[method];
+    if (handler === undefined) {
+      throw new Error(`Unexpected ${method}`);
+    }
+    return handler(params);
+  }
+}
+
+// Answers `eth_call` to ERC-20 `allowance` with `allowance`
+export const allowanceHandler =
+  (allowance: ethers.BigNumberish): Handler =>
+  () =>
+    ethers.utils.defaultAbiCoder.encode(["uint256"], [allowance]);
+
+export function mockWallet(provider: MockProvider): ExecutionWallet {
+  return {
+    address: OWNER,
+    switchChain: jest.fn(async () => undefined),
+    getEthersProvider: jest.fn(async () => provider),
+  };
+}
+
+// A wallet connected through Privy, with the fields the dashboard reads
+export const mockConnectedWallet = (
+  provider: MockProvider,
+  fields: Partial<ConnectedWallet> = {}
+) =>
+  ({
+    ...mockWallet(provider),
+    chainId: "eip155:11155111",
+    walletClientType: "privy",
+    connectorType: "embedded",
+    meta: { name: "Privy Wallet", id: "io.privy.wallet" },
+    ...fields,
+  } as ConnectedWallet);
+
+export function mockOrderBook(): jest.Mocked<OrderBook> {
+  return {
+    getQuote: jest.fn(),
+    sendOrder: jest.fn(),
+    getOrder: jest.fn(),
+    getOrders: jest.fn(),
+    sendSignedOrderCancellations: jest.fn(),
+  };
+}
+
+export const mockAdapter = (
+  wallet: ExecutionWallet | undefined,
+  orderBook: OrderBook = mockOrderBook(),
+  relayer?: Relayer
+): ExecutionAdapter => ({
+  name: "Mock",
+  wallet,
+  getOrderBook: () => orderBook,
+  relayer,
+});
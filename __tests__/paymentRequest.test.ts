@@ -0,0 +1,314 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "../util/abi";
+import { getReadProvider } from "../util/chains";
+import { InvalidPaymentRequestError } from "../util/errors";
+import { ExecutionWallet } from "../util/execution";
+import {
+  createPaymentRequest,
+  decodePaymentRequest,
+  encodePaymentRequest,
+  findPayment,
+  paymentRequestIntent,
+  paymentRequestUrl,
+} from "../util/paymentRequest";
+import {
+  INTENT_SCHEMA_VERSION,
+  IntentValidationError,
+  parseIntentResponse,
+} from "../util/intent";
+import { mockAdapter, MockProvider, OWNER } from "./helpers/wallet";
+
+jest.mock("../util/chains", () => ({
+  ...jest.requireActual("../util/chains"),
+  getReadProvider: jest.fn(),
+}));
+
+const SEPOLIA = 11155111;
+const USDC = "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238";
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+const signer = new ethers.Wallet(`0x${"42".repeat(32)}`);
+
+// A wallet signing typed data with `signer`, as a real one would
+function signingWallet(): ExecutionWallet {
+  const provider = new MockProvider(SEPOLIA, {
+    eth_accounts: () => [signer.address],
+    eth_signTypedData_v4: (params) => {
+      const { domain, types, message } = JSON.parse(params[1] as string);
+      delete types.EIP712Domain;
+      return signer._signTypedData(domain, types, message);
+    },
+  });
+  return {
+    address: signer.address,
+    switchChain: jest.fn(async () => undefined),
+    getEthersProvider: jest.fn(async () => provider),
+  };
+}
+
+const request = {
+  chain: "sepolia",
+  amount: "25",
+  token: "USDC",
+  memo: "Dinner 🍕",
+};
+
+beforeEach(() => {
+  jest
+    .mocked(getReadProvider)
+    .mockReturnValue(
+      new MockProvider(SEPOLIA, { eth_blockNumber: () => "0x64" })
+    );
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("request_payment intents", () => {
+  const payload = (response: unknown) => ({
+    schema_version: INTENT_SCHEMA_VERSION,
+    transaction_type: "request_payment",
+    response,
+  });
+
+  it("are parsed on their own", () => {
+    expect(parseIntentResponse(payload(request))).toEqual({
+      type: "payment_request",
+      request,
+    });
+  });
+
+  it("need a token, not the native currency", () => {
+    expect(() =>
+      parseIntentResponse(payload({ ...request, token: "ETH" }))
+    ).toThrow(IntentValidationError);
+  });
+});
+
+describe("payment requests", () => {
+  it("round-trips through a signed link", async () => {
+    const created = await createPaymentRequest(
+      mockAdapter(signingWallet()),
+      request
+    );
+    expect(created).toMatchObject({
+      recipient: signer.address,
+      chainId: SEPOLIA,
+      token: USDC,
+      amount: "25",
+      memo: "Dinner 🍕",
+      fromBlock: 100,
+    });
+
+    const url = paymentRequestUrl(created, "https://app.test");
+    const encoded = new URL(url).searchParams.get("request")!;
+    expect(url).toMatch(/^https:\/\/app\.test\/dashboard\?request=[\w-]+$/);
+
+    const decoded = decodePaymentRequest(encoded);
+    expect(decoded).toEqual({
+      recipient: created.recipient,
+      chainId: created.chainId,
+      token: created.token,
+      amount: created.amount,
+      memo: created.memo,
+      nonce: created.nonce,
+      signature: created.signature,
+    });
+    expect(paymentRequestIntent(decoded)).toEqual({
+      transaction_type: "transfer",
+      recipientAddress: signer.address,
+      chain: "sepolia",
+      amount: "25",
+      token: USDC,
+    });
+  });
+
+  it("rejects links that were changed or signed by someone else", async () => {
+    const created = await createPaymentRequest(
+      mockAdapter(signingWallet()),
+      request
+    );
+
+    expect(() =>
+      decodePaymentRequest(encodePaymentRequest({ ...created, amount: "250" }))
+    ).toThrow(InvalidPaymentRequestError);
+    expect(() =>
+      decodePaymentRequest(
+        encodePaymentRequest({ ...created, recipient: OWNER })
+      )
+    ).toThrow(InvalidPaymentRequestError);
+    expect(() => decodePaymentRequest("not-a-request")).toThrow(
+      InvalidPaymentRequestError
+    );
+  });
+
+  it("can't be for nothing, as anyone can send a zero-value transfer", async () => {
+    await expect(
+      createPaymentRequest(mockAdapter(signingWallet()), {
+        ...request,
+        amount: "0.0",
+      })
+    ).rejects.toThrow("above zero");
+
+    // Signed by the recipient all the same
+    const unsigned = {
+      recipient: signer.address,
+      chainId: SEPOLIA,
+      token: USDC,
+      amount: "0",
+      memo: "",
+      nonce: ethers.constants.HashZero,
+    };
+    const signature = await signer._signTypedData(
+      { name: "txt2txn payment request", version: "1" },
+      {
+        PaymentRequest: [
+          { name: "recipient", type: "address" },
+          { name: "chainId", type: "uint256" },
+          { name: "token", type: "address" },
+          { name: "amount", type: "string" },
+          { name: "memo", type: "string" },
+          { name: "nonce", type: "bytes32" },
+        ],
+      },
+      unsigned
+    );
+    expect(() =>
+      decodePaymentRequest(encodePaymentRequest({ ...unsigned, signature }))
+    ).toThrow(InvalidPaymentRequestError);
+  });
+});
+
+describe("findPayment", () => {
+  const transferLog = (to: string, amount: string, hash: string) => {
+    const { data, topics } = erc20.encodeEventLog(erc20.getEvent("Transfer"), [
+      OWNER,
+      to,
+      ethers.utils.parseUnits(amount, 6),
+    ]);
+    return {
+      address: USDC,
+      topics,
+      data,
+      blockNumber: "0x65",
+      blockHash: ethers.constants.HashZero,
+      transactionHash: hash,
+      transactionIndex: "0x0",
+      logIndex: "0x0",
+      removed: false,
+    };
+  };
+
+  const created = {
+    recipient: signer.address,
+    chainId: SEPOLIA,
+    token: USDC,
+    amount: "25",
+    memo: "",
+    nonce: ethers.constants.HashZero,
+    signature: "0x",
+    createdAt: 0,
+    fromBlock: 100,
+  };
+
+  it("finds a transfer of the requested amount since the request", async () => {
+    const getLogs = jest.fn(() => [
+      transferLog(signer.address, "24", `0x${"01".repeat(32)}`),
+      transferLog(signer.address, "25", `0x${"02".repeat(32)}`),
+    ]);
+    jest.mocked(getReadProvider).mockReturnValue(
+      new MockProvider(SEPOLIA, {
+        eth_blockNumber: () => "0x66",
+        eth_getLogs: getLogs,
+      })
+    );
+
+    expect(await findPayment(created)).toEqual({
+      paidBy: `0x${"02".repeat(32)}`,
+      scannedTo: 102,
+    });
+    expect(getLogs).toHaveBeenCalledWith([
+      expect.objectContaining({
+        fromBlock: "0x64",
+        toBlock: "0x66",
+        topics: [
+          erc20.getEventTopic("Transfer"),
+          null,
+          ethers.utils.hexZeroPad(signer.address.toLowerCase(), 32),
+        ],
+      }),
+    ]);
+
+    getLogs.mockReturnValue([]);
+    expect(await findPayment(created)).toEqual({ scannedTo: 102 });
+  });
+
+  it("skips transfers that already paid another request", async () => {
+    jest.mocked(getReadProvider).mockReturnValue(
+      new MockProvider(SEPOLIA, {
+        eth_blockNumber: () => "0x66",
+        eth_getLogs: () => [
+          transferLog(signer.address, "25", `0x${"02".repeat(32)}`),
+          transferLog(signer.address, "25", `0x${"03".repeat(32)}`),
+        ],
+      })
+    );
+
+    const claimed = new Set([`0x${"02".repeat(32)}`]);
+    expect(await findPayment(created, claimed)).toEqual({
+      paidBy: `0x${"03".repeat(32)}`,
+      scannedTo: 102,
+    });
+  });
+
+  it("scans in bounded ranges from where it left off", async () => {
+    const getLogs = jest.fn(() => []);
+    jest.mocked(getReadProvider).mockReturnValue(
+      new MockProvider(SEPOLIA, {
+        eth_blockNumber: () => ethers.utils.hexValue(5000 + 2500),
+        eth_getLogs: getLogs,
+      })
+    );
+
+    expect(await findPayment({ ...created, scannedTo: 5000 })).toEqual({
+      scannedTo: 7500,
+    });
+    expect(getLogs).toHaveBeenCalledTimes(2);
+    expect(getLogs).toHaveBeenNthCalledWith(1, [
+      expect.objectContaining({
+        fromBlock: ethers.utils.hexValue(5001),
+        toBlock: ethers.utils.hexValue(7000),
+      }),
+    ]);
+    expect(getLogs).toHaveBeenNthCalledWith(2, [
+      expect.objectContaining({
+        fromBlock: ethers.utils.hexValue(7001),
+        toBlock: ethers.utils.hexValue(7500),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { EIP3009_ABI } from "../util/abi";
+import {
+  INTENT_SCHEMA_VERSION,
+  IntentValidationError,
+  parseIntentResponse,
+  TransferIntent,
+} from "../util/intent";
+import {
+  authorizeRuns,
+  createSchedule,
+  droppedRuns,
+  dueAuthorization,
+  editSchedule,
+  isDue,
+  nextOccurrence,
+  occurrence,
+  pauseSchedule,
+  recordRun,
+  updateRun,
+  upcomingRuns,
+} from "../util/schedules";
+import { findToken } from "../util/tokens";
+import {
+  mockAdapter,
+  MockProvider,
+  mockWallet,
+  RECIPIENT,
+} from "./helpers/wallet";
+
+const SEPOLIA = 11155111;
+const USDC = findToken(SEPOLIA, "USDC")!;
+const HOUR = 60 * 60 * 1000;
+
+const intent: TransferIntent = {
+  transaction_type: "transfer",
+  recipientAddress: RECIPIENT,
+  chain: "sepolia",
+  amount: "50",
+  token: "USDC",
+};
+
+// Local time, as schedules follow the user's calendar
+const JAN_31 = new Date(2026, 0, 31, 9).getTime();
+const NOW = JAN_31 - HOUR;
+
+const monthly = () =>
+  createSchedule(
+    "send 50 USDC to rent on the last day of every month",
+    intent,
+    { at: JAN_31, every: "month" },
+    NOW
+  );
+
+// A wallet on a token answering the reads needed to sign authorizations
+function usdcWallet() {
+  const eip3009 = new ethers.utils.Interface(EIP3009_ABI);
+  const domain = {
+    name: "USDC",
+    version: "2",
+    chainId: SEPOLIA,
+    verifyingContract: USDC.address,
+  };
+  const results: Record<string, unknown[]> = {
+    name: [domain.name],
+    version: [domain.version],
+    DOMAIN_SEPARATOR: [ethers.utils._TypedDataEncoder.hashDomain(domain)],
+    authorizationState: [false],
+  };
+  return mockWallet(
+    new MockProvider(SEPOLIA, {
+      eth_call: (params) => {
+        const call = eip3009.parseTransaction(params[0] as { data: string });
+        return eip3009.encodeFunctionResult(call.name, results[call.name]);
+      },
+      eth_signTypedData_v4: () => `0x${"11".repeat(65)}`,
+    })
+  );
+}
+
+beforeEach(() => {
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("scheduled intents", () => {
+  const payload = (schedule: unknown, transactionType = "transfer") => ({
+    schema_version: INTENT_SCHEMA_VERSION,
+    transaction_type: transactionType,
+    response: intent,
+    schedule,
+  });
+
+  it("are parsed with when they run", () => {
+    const at = new Date(Date.now() + 24 * HOUR);
+    expect(
+      parseIntentResponse(payload({ at: at.toISOString(), every: "month" }))
+    ).toEqual({
+      type: "scheduled",
+      intent,
+      schedule: { at: at.getTime(), every: "month" },
+    });
+  });
+
+  it("must run in the future, at a supported interval", () => {
+    expect(() =>
+      parseIntentResponse(payload({ at: "2020-01-01T00:00:00Z" }))
+    ).toThrow(/in the past/);
+    expect(() => parseIntentResponse(payload({ at: "tomorrow" }))).toThrow(
+      IntentValidationError
+    );
+    expect(() =>
+      parseIntentResponse(
+        payload({ at: "2099-01-01T00:00:00Z", every: "year" })
+      )
+    ).toThrow(/not supported/);
+  });
+
+  it("can only be transfers", () => {
+    expect(() =>
+      parseIntentResponse({
+        schema_version: INTENT_SCHEMA_VERSION,
+        transaction_type: "wrap",
+        response: { chain: "sepolia", amount: "1" },
+        schedule: { at: "2099-01-01T00:00:00Z" },
+      })
+    ).toThrow("Only transfers can be scheduled");
+  });
+});
+
+describe("schedule runs", () => {
+  it("keep to the day of the month, or the last one", () => {
+    expect(new Date(occurrence(JAN_31, "month", 1)).getDate()).toBe(28);
+    expect(new Date(occurrence(JAN_31, "month", 2)).getDate()).toBe(31);
+    expect(new Date(occurrence(JAN_31, "week", 1)).getDate()).toBe(7);
+    expect(upcomingRuns(monthly(), 3)).toEqual([
+      JAN_31,
+      occurrence(JAN_31, "month", 1),
+      occurrence(JAN_31, "month", 2),
+    ]);
+  });
+
+  it("skip runs that were missed", () => {
+    const schedule = monthly();
+    expect(nextOccurrence(schedule, occurrence(JAN_31, "month", 2))).toBe(
+      occurrence(JAN_31, "month", 3)
+    );
+    expect(nextOccurrence({ startsAt: JAN_31 }, JAN_31 + HOUR)).toBeUndefined();
+  });
+
+  it("are recorded, moving the schedule on", () => {
+    const schedule = monthly();
+    expect(isDue(schedule, NOW)).toBe(false);
+    expect(isDue(schedule, JAN_31)).toBe(true);
+    expect(isDue(pauseSchedule(schedule, true), JAN_31)).toBe(false);
+
+    const sent = recordRun(
+      schedule,
+      { status: "pending", hash: "0x01" },
+      JAN_31 + HOUR
+    );
+    expect(sent.runs).toEqual([
+      { status: "pending", hash: "0x01", at: JAN_31 },
+    ]);
+    expect(sent.nextRun).toBe(occurrence(JAN_31, "month", 1));
+    expect(updateRun(sent, "0x01", { status: "confirmed" }).runs).toEqual([
+      { status: "confirmed", hash: "0x01", at: JAN_31 },
+    ]);
+  });
+
+  it("end after a one-off schedule has run", () => {
+    const once = createSchedule("", intent, { at: JAN_31 }, NOW);
+    const done = recordRun(once, { status: "skipped" }, JAN_31);
+    expect(done.nextRun).toBeUndefined();
+    expect(isDue(done, JAN_31 + HOUR)).toBe(false);
+  });
+});
+
+describe("editSchedule", () => {
+  it("changes the amount and when it runs", () => {
+    const at = JAN_31 + 24 * HOUR;
+    const edited = editSchedule(
+      monthly(),
+      { amount: "60", at, every: undefined },
+      NOW
+    );
+    expect(edited.intent.amount).toBe("60");
+    expect(edited).toMatchObject({ startsAt: at, nextRun: at });
+    expect(edited.every).toBeUndefined();
+  });
+
+  it("rejects invalid amounts and past times", () => {
+    expect(() =>
+      editSchedule(monthly(), { amount: "-1", at: JAN_31, every: "month" }, NOW)
+    ).toThrow(IntentValidationError);
+    expect(() =>
+      editSchedule(monthly(), { amount: "60", at: NOW, every: "month" }, NOW)
+    ).toThrow(/in the past/);
+  });
+});
+
+describe("authorizeRuns", () => {
+  it("signs each upcoming run, valid from when it is due", async () => {
+    const relayer = { name: "test", relay: jest.fn() };
+    const schedule = monthly();
+    const authorized = await authorizeRuns(
+      mockAdapter(usdcWallet(), undefined, relayer),
+      schedule,
+      RECIPIENT,
+      USDC,
+      2
+    );
+
+    expect(authorized.map(({ at }) => at)).toEqual(upcomingRuns(schedule, 2));
+    const [first] = authorized;
+    expect(first!.authorization).toMatchObject({
+      to: RECIPIENT,
+      value: "50000000",
+      validAfter: JAN_31 / 1000 - 1,
+    });
+    expect(relayer.relay).not.toHaveBeenCalled();
+
+    const withRuns = { ...schedule, authorized };
+    expect(dueAuthorization(withRuns, JAN_31)).toBe(first!.authorization);
+    // Too late for the relayer, so the run is asked for instead
+    expect(dueAuthorization(withRuns, JAN_31 + 7 * 24 * HOUR)).toBeUndefined();
+    // Past runs' authorizations are dropped once recorded
+    expect(
+      recordRun(withRuns, { status: "skipped" }, JAN_31).authorized
+    ).toEqual(authorized.slice(1));
+    expect(pauseSchedule(withRuns, true).authorized).toEqual([]);
+    // Those dropped by pausing or deleting still need cancelling on chain
+    expect(droppedRuns(authorized, pauseSchedule(withRuns, true))).toEqual(
+      authorized
+    );
+    expect(droppedRuns(authorized, undefined)).toEqual(authorized);
+    expect(droppedRuns(authorized, pauseSchedule(withRuns, false))).toEqual([]);
+  });
+
+  it("needs a relayer", async () => {
+    await expect(
+      authorizeRuns(mockAdapter(usdcWallet()), monthly(), RECIPIENT, USDC)
+    ).rejects.toThrow("No relayer");
+  });
+});
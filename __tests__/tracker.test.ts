@@ -0,0 +1,274 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { EnrichedOrder, OrderStatus } from "@cowprotocol/cow-sdk";
+import { getReadProvider } from "../util/chains";
+import {
+  ProgressEvent,
+  trackTransaction,
+  TrackingAbortedError,
+  TrackingTimeoutError,
+  waitForOrderStatus,
+} from "../util/tracker";
+import {
+  mockOrderBook,
+  MockProvider,
+  OWNER,
+  RECIPIENT,
+} from "./helpers/wallet";
+
+jest.mock("../util/chains", () => ({
+  ...jest.requireActual("../util/chains"),
+  getReadProvider: jest.fn(),
+}));
+
+const order = (status: OrderStatus, executedSellAmount = "0"): EnrichedOrder =>
+  ({
+    uid: "0xuid",
+    status,
+    validTo: 2000000000,
+    executedSellAmount,
+    executedBuyAmount: executedSellAmount,
+  } as EnrichedOrder);
+
+// Polls without waiting between attempts
+const fast = { initialDelayMs: 1, maxDelayMs: 1 };
+
+describe("waitForOrderStatus", () => {
+  it("polls until the order is filled", async () => {
+    const orderBook = mockOrderBook();
+    orderBook.getOrder
+      .mockResolvedValueOnce(order(OrderStatus.OPEN))
+      .mockResolvedValueOnce(order(OrderStatus.OPEN, "50"))
+      .mockResolvedValueOnce(order(OrderStatus.FULFILLED, "100"));
+    const events: ProgressEvent[] = [];
+
+    await expect(
+      waitForOrderStatus("0xuid", "sepolia", {
+        ...fast,
+        orderBook,
+        onProgress: (event) => events.push(event),
+      })
+    ).resolves.toBe(OrderStatus.FULFILLED);
+    expect(orderBook.getOrder).toHaveBeenCalledTimes(3);
+    expect(events.map(({ type }) => type)).toEqual([
+      "submitted",
+      "partially_filled",
+      "fulfilled",
+    ]);
+  });
+
+  it("returns expired and cancelled orders", async () => {
+    const orderBook = mockOrderBook();
+    orderBook.getOrder.mockResolvedValue(order(OrderStatus.EXPIRED));
+    await expect(
+      waitForOrderStatus("0xuid", "sepolia", { ...fast, orderBook })
+    ).resolves.toBe(OrderStatus.EXPIRED);
+  });
+
+  it("retries when the order book can't be reached", async () => {
+    const orderBook = mockOrderBook();
+    orderBook.getOrder
+      .mockRejectedValueOnce(new Error("Failed to fetch"))
+      .mockResolvedValueOnce(order(OrderStatus.FULFILLED, "100"));
+    const events: ProgressEvent[] = [];
+
+    await expect(
+      waitForOrderStatus("0xuid", "sepolia", {
+        ...fast,
+        orderBook,
+        onProgress: (event) => events.push(event),
+      })
+    ).resolves.toBe(OrderStatus.FULFILLED);
+    expect(events).toContainEqual({
+      type: "retrying",
+      attempt: 1,
+      error: "Failed to fetch",
+    });
+  });
+
+  it("gives up after the timeout", async () => {
+    const orderBook = mockOrderBook();
+    orderBook.getOrder.mockResolvedValue(order(OrderStatus.OPEN));
+    await expect(
+      waitForOrderStatus("0xuid", "sepolia", {
+        ...fast,
+        orderBook,
+        timeoutMs: 20,
+      })
+    ).rejects.toBeInstanceOf(TrackingTimeoutError);
+  });
+
+  it("gives up on an order the order book never returns", async () => {
+    jest.useFakeTimers();
+    const orderBook = mockOrderBook();
+    orderBook.getOrder.mockRejectedValue(new Error("Not found"));
+
+    const status = waitForOrderStatus("0xuid", "sepolia", { orderBook });
+    const rejected =
+      expect(status).rejects.toBeInstanceOf(TrackingTimeoutError);
+    await jest.advanceTimersByTimeAsync(16 * 60 * 1000);
+    await rejected;
+    jest.useRealTimers();
+  });
+
+  it("stops when aborted", async () => {
+    const orderBook = mockOrderBook();
+    orderBook.getOrder.mockResolvedValue(order(OrderStatus.OPEN));
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      waitForOrderStatus("0xuid", "sepolia", {
+        ...fast,
+        orderBook,
+        signal: controller.signal,
+      })
+    ).rejects.toBeInstanceOf(TrackingAbortedError);
+    expect(orderBook.getOrder).not.toHaveBeenCalled();
+  });
+});
+
+describe("trackTransaction", () => {
+  const hash = `0x${"aa".repeat(32)}`;
+  const replacement = `0x${"bb".repeat(32)}`;
+  const blockHash = `0x${"cc".repeat(32)}`;
+  const transaction = (txHash: string, blockNumber: number | null) => ({
+    hash: txHash,
+    from: OWNER,
+    to: RECIPIENT,
+    nonce: "0x5",
+    gas: "0x5208",
+    gasPrice: "0x1",
+    value: "0x1",
+    input: "0x",
+    blockHash: blockNumber === null ? null : blockHash,
+    blockNumber:
+      blockNumber === null ? null : ethers.utils.hexValue(blockNumber),
+    transactionIndex: blockNumber === null ? null : "0x0",
+  });
+  const block = (number: number) => ({
+    hash: blockHash,
+    parentHash: blockHash,
+    number: ethers.utils.hexValue(number),
+    timestamp: "0x1",
+    nonce: "0x0000000000000000",
+    difficulty: "0x0",
+    gasLimit: "0x1000000",
+    gasUsed: "0x5208",
+    miner: OWNER,
+    extraData: "0x",
+    // The sped-up transaction was mined in block 10
+    transactions: number === 10 ? [transaction(replacement, 10)] : [],
+  });
+
+  const receipt = (txHash: string) => ({
+    transactionHash: txHash,
+    blockHash,
+    blockNumber: "0xa",
+    transactionIndex: "0x0",
+    from: OWNER,
+    to: RECIPIENT,
+    gasUsed: "0x5208",
+    cumulativeGasUsed: "0x5208",
+    logsBloom: `0x${"00".repeat(256)}`,
+    logs: [],
+    status: "0x1",
+    contractAddress: null,
+    type: "0x0",
+    effectiveGasPrice: "0x1",
+  });
+
+  // The transaction was sent at block 10 and sped up there, before tracking
+  // started at block 12
+  const node = () =>
+    new MockProvider(11155111, {
+      eth_blockNumber: () => "0xc",
+      eth_getTransactionReceipt: ([txHash]) =>
+        txHash === replacement ? receipt(replacement) : null,
+      eth_getTransactionByHash: ([txHash]) =>
+        txHash === hash ? transaction(hash, null) : null,
+      eth_getTransactionCount: () => "0x6",
+      eth_getBlockByNumber: ([number]) => block(Number(number)),
+    });
+
+  it("looks for replacements from the block it was sent at", async () => {
+    jest.mocked(getReadProvider).mockReturnValue(node());
+    const events: ProgressEvent[] = [];
+
+    const receipt = await trackTransaction(hash, "sepolia", {
+      ...fast,
+      fromBlock: 10,
+      onProgress: (event) => events.push(event),
+    });
+
+    expect(receipt.transactionHash).toBe(replacement);
+    expect(events).toContainEqual({
+      type: "replaced",
+      hash,
+      replacement,
+      sped_up: true,
+    });
+  });
+
+  it("doesn't take the transaction for its own replacement", async () => {
+    // Mined in block 10, but the node's receipt lags behind its nonce
+    let receiptPolls = 0;
+    const getBlock = jest.fn(([number]: unknown[]) => ({
+      ...block(Number(number)),
+      transactions: Number(number) === 10 ? [transaction(hash, 10)] : [],
+    }));
+    jest.mocked(getReadProvider).mockReturnValue(
+      new MockProvider(11155111, {
+        eth_blockNumber: () => "0xc",
+        eth_getTransactionReceipt: () =>
+          ++receiptPolls > 3 ? receipt(hash) : null,
+        eth_getTransactionByHash: () => transaction(hash, 10),
+        eth_getTransactionCount: () => "0x6",
+        eth_getBlockByNumber: getBlock,
+      })
+    );
+    const events: ProgressEvent[] = [];
+
+    const tracked = await trackTransaction(hash, "sepolia", {
+      ...fast,
+      fromBlock: 10,
+      onProgress: (event) => events.push(event),
+    });
+
+    expect(tracked.transactionHash).toBe(hash);
+    expect(events.map(({ type }) => type)).not.toContain("replaced");
+    // Each block is looked through once, however often it polls
+    expect(getBlock.mock.calls.map(([[number]]) => Number(number))).toEqual([
+      10, 11, 12,
+    ]);
+  });
+
+  it("needs the block it was sent at to find earlier replacements", async () => {
+    jest.mocked(getReadProvider).mockReturnValue(node());
+
+    await expect(
+      trackTransaction(hash, "sepolia", { ...fast, timeoutMs: 50 })
+    ).rejects.toBeInstanceOf(TrackingTimeoutError);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { OrderKind, OrderQuoteResponse } from "@cowprotocol/cow-sdk";
+import {
+  applySlippage,
+  checkAllowanceAndApproveIfNecessary,
+  previewOrder,
+  previewTransaction,
+  resolveRecipient,
+  sendOrder,
+  sendTransaction,
+} from "../util/utils";
+import { getCctp, getEnsProvider } from "../util/chains";
+import { DEFAULT_APPROVAL_POLICY, getKnownSpenders } from "../util/approvals";
+import { dryRunAdapter, SigningRequest } from "../util/execution";
+import {
+  EnsResolutionError,
+  EnsUnavailableError,
+  UserRejectedError,
+  WrongNetworkError,
+} from "../util/errors";
+import { ERC20_ABI } from "../util/abi";
+import { applySwapPhrases, SwapIntent } from "../util/intent";
+import {
+  allowanceHandler,
+  mockAdapter,
+  mockOrderBook,
+  MockProvider,
+  mockWallet,
+  OWNER,
+  RECIPIENT,
+} from "./helpers/wallet";
+
+jest.mock("../util/chains", () => ({
+  ...jest.requireActual("../util/chains"),
+  getEnsProvider: jest.fn(),
+}));
+
+const SEPOLIA = 11155111;
+const USDC = "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238";
+const WETH = "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14";
+const VAULT_RELAYER = "0xC92E8bdf79f0507f65a392b0ab4667716BFE0110";
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+
+const mockResolveName = (address: string | null) =>
+  jest.mocked(getEnsProvider).mockReturnValue({
+    resolveName: jest.fn(async () => address),
+  } as unknown as ethers.providers.BaseProvider);
+
+beforeEach(() => {
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("resolveRecipient", () => {
+  it("keeps addresses as they are", async () => {
+    await expect(resolveRecipient(RECIPIENT, "sepolia")).resolves.toBe(
+      RECIPIENT
+    );
+  });
+
+  it("prefers address book contacts over ENS", async () => {
+    mockResolveName(OWNER);
+    const contacts = [{ alias: "alice", address: RECIPIENT, chains: [] }];
+    await expect(resolveRecipient("Alice", "sepolia", contacts)).resolves.toBe(
+      RECIPIENT
+    );
+  });
+
+  it("resolves ENS names", async () => {
+    mockResolveName(RECIPIENT);
+    await expect(resolveRecipient("alice.eth", "sepolia")).resolves.toBe(
+      RECIPIENT
+    );
+  });
+
+  it("fails on ENS names without an address", async () => {
+    mockResolveName(null);
+    await expect(
+      resolveRecipient("nobody.eth", "sepolia")
+    ).rejects.toBeInstanceOf(EnsResolutionError);
+  });
+
+  it("fails on ENS names when mainnet isn't configured", async () => {
+    jest.mocked(getEnsProvider).mockReturnValue(undefined);
+    await expect(
+      resolveRecipient("alice.eth", "sepolia")
+    ).rejects.toBeInstanceOf(EnsUnavailableError);
+  });
+});
+
+describe("decimal handling", () => {
+  it("rounds slippage against the user", () => {
+    expect(applySlippage(1001, 50, OrderKind.SELL).toString()).toBe("995");
+    expect(applySlippage(1001, 50, OrderKind.BUY).toString()).toBe("1007");
+  });
+
+  it("rejects amounts with more decimals than the token", async () => {
+    await expect(
+      previewTransaction(RECIPIENT, "1.0000001", "sepolia", "USDC")
+    ).rejects.toThrow();
+    await expect(
+      previewTransaction(RECIPIENT, "1.000001", "sepolia", "USDC")
+    ).resolves.toMatchObject({ amount: "1.000001", token: { decimals: 6 } });
+  });
+});
+
+describe("sendTransaction", () => {
+  it("transfers the amount in the token's units", async () => {
+    const wallet = mockWallet(new MockProvider(SEPOLIA));
+    const requests: SigningRequest[] = [];
+    const adapter = dryRunAdapter(mockAdapter(wallet), (request) =>
+      requests.push(request)
+    );
+
+    await sendTransaction(adapter, RECIPIENT, "1.5", "sepolia", "USDC");
+
+    expect(wallet.switchChain).toHaveBeenCalledWith(SEPOLIA);
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request).toMatchObject({
+      type: "transaction",
+      chainId: SEPOLIA,
+      transaction: { to: USDC.toLowerCase() },
+    });
+    expect(request?.type === "transaction" && request.transaction["data"]).toBe(
+      erc20.encodeFunctionData("transfer", [RECIPIENT, 1500000])
+    );
+  });
+
+  it("fails without a wallet", async () => {
+    await expect(
+      sendTransaction(mockAdapter(undefined), RECIPIENT, "1", "sepolia", "USDC")
+    ).rejects.toThrow("No wallet is connected!");
+  });
+
+  it("reports a rejected network switch", async () => {
+    const wallet = mockWallet(new MockProvider(SEPOLIA));
+    jest
+      .mocked(wallet.switchChain)
+      .mockRejectedValue({ code: 4001, message: "User rejected the request." });
+    await expect(
+      sendTransaction(mockAdapter(wallet), RECIPIENT, "1", "sepolia", "USDC")
+    ).rejects.toBeInstanceOf(UserRejectedError);
+  });
+
+  it("reports a failed network switch", async () => {
+    const wallet = mockWallet(new MockProvider(SEPOLIA));
+    jest
+      .mocked(wallet.switchChain)
+      .mockRejectedValue({ code: 4902, message: "Unrecognized chain ID" });
+    await expect(
+      sendTransaction(mockAdapter(wallet), RECIPIENT, "1", "sepolia", "USDC")
+    ).rejects.toEqual(new WrongNetworkError("sepolia"));
+  });
+});
+
+describe("checkAllowanceAndApproveIfNecessary", () => {
+  const approve = async (
+    allowance: ethers.BigNumberish,
+    policy = { ...DEFAULT_APPROVAL_POLICY, usePermit: false }
+  ) => {
+    const provider = new MockProvider(SEPOLIA, {
+      eth_call: allowanceHandler(allowance),
+    });
+    const requests: SigningRequest[] = [];
+    const adapter = dryRunAdapter(
+      mockAdapter(mockWallet(provider)),
+      (request) => requests.push(request)
+    );
+    const signer = (await adapter.wallet!.getEthersProvider()).getSigner();
+    const result = await checkAllowanceAndApproveIfNecessary(
+      VAULT_RELAYER,
+      USDC,
+      signer,
+      ethers.BigNumber.from(1000),
+      policy,
+      0
+    );
+    return { result, requests };
+  };
+
+  it("does nothing when the allowance is enough", async () => {
+    const { result, requests } = await approve(1000);
+    expect(result).toBeUndefined();
+    expect(requests).toEqual([]);
+  });
+
+  it("approves the exact amount missing an allowance", async () => {
+    const { requests } = await approve(999);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      type: "transaction",
+      transaction: {
+        to: USDC.toLowerCase(),
+        data: erc20.encodeFunctionData("approve", [VAULT_RELAYER, 1000]),
+      },
+    });
+  });
+
+  it("approves a buffer on top, when asked to", async () => {
+    const { requests } = await approve(0, {
+      ...DEFAULT_APPROVAL_POLICY,
+      mode: "buffer",
+      bufferPercent: 10,
+      usePermit: false,
+    });
+    expect(requests[0]).toMatchObject({
+      transaction: {
+        data: erc20.encodeFunctionData("approve", [VAULT_RELAYER, 1100]),
+      },
+    });
+  });
+});
+
+describe("sendOrder", () => {
+  const quote: OrderQuoteResponse = {
+    quote: {
+      sellToken: USDC,
+      buyToken: WETH,
+      receiver: OWNER,
+      sellAmount: "99000000",
+      buyAmount: "50000000000000000",
+      validTo: 2000000000,
+      appData: ethers.constants.HashZero,
+      feeAmount: "1000000",
+      kind: OrderKind.SELL,
+      partiallyFillable: false,
+    },
+    from: OWNER,
+    expiration: "2033-05-18T03:33:20Z",
+    id: 7,
+    verified: true,
+  };
+
+  const setUp = () => {
+    const provider = new MockProvider(SEPOLIA, {
+      eth_call: allowanceHandler(ethers.constants.MaxUint256),
+      eth_signTypedData_v4: () => `0x${"11".repeat(64)}1b`,
+    });
+    const orderBook = mockOrderBook();
+    orderBook.getQuote.mockResolvedValue({
+      ...quote,
+      quote: { ...quote.quote },
+    });
+    orderBook.sendOrder.mockResolvedValue("0xuid");
+    return { orderBook, adapter: mockAdapter(mockWallet(provider), orderBook) };
+  };
+
+  it("folds the fee into the amount sold and applies slippage", async () => {
+    const { adapter } = setUp();
+    const preview = await previewOrder(
+      adapter,
+      "sepolia",
+      "USDC",
+      "WETH",
+      "100",
+      { kind: OrderKind.SELL, slippageBps: 50 }
+    );
+    expect(preview).toMatchObject({
+      sellAmount: "100.0",
+      buyAmount: "0.05",
+      limitAmount: "0.04975",
+      marketPrice: "0.0005",
+    });
+    expect(preview.quote.feeAmount).toBe("0");
+  });
+
+  it("prices limit orders in either token", async () => {
+    const { adapter } = setUp();
+    // 2000 USDC per WETH, priced from either side
+    const options = { kind: OrderKind.BUY, slippageBps: 50 };
+    const ofWeth = await previewOrder(
+      adapter,
+      "sepolia",
+      "USDC",
+      "WETH",
+      "0.05",
+      {
+        ...options,
+        limitPrice: "2000",
+        limitPriceOf: "buyToken",
+      }
+    );
+    const ofUsdc = await previewOrder(
+      adapter,
+      "sepolia",
+      "USDC",
+      "WETH",
+      "0.05",
+      {
+        ...options,
+        limitPrice: "0.0005",
+      }
+    );
+
+    for (const preview of [ofWeth, ofUsdc]) {
+      expect(preview.quote.sellAmount).toBe("100000000");
+      expect(preview.quote.buyAmount).toBe("50000000000000000");
+      expect(preview.limitAmount).toBe("100.0");
+    }
+    expect(ofWeth.limitPriceOf).toBe("buyToken");
+    expect(ofUsdc.limitPriceOf).toBe("sellToken");
+  });
+
+  it("signs the quoted order and sends it to the order book", async () => {
+    const { adapter, orderBook } = setUp();
+    const preview = await previewOrder(
+      adapter,
+      "sepolia",
+      "USDC",
+      "WETH",
+      "100",
+      { kind: OrderKind.SELL, slippageBps: 50 }
+    );
+
+    await expect(
+      sendOrder(adapter, preview, DEFAULT_APPROVAL_POLICY)
+    ).resolves.toBe("0xuid");
+    expect(orderBook.sendOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: OWNER,
+        receiver: OWNER,
+        sellAmount: "100000000",
+        buyAmount: "49750000000000000",
+        feeAmount: "0",
+        quoteId: 7,
+        signingScheme: "eip712",
+        signature: `0x${"11".repeat(64)}1b`,
+      })
+    );
+  });
+
+  it("refuses orders quoted for another wallet", async () => {
+    const { adapter } = setUp();
+    const preview = await previewOrder(
+      adapter,
+      "sepolia",
+      "USDC",
+      "WETH",
+      "100",
+      { kind: OrderKind.SELL, slippageBps: 50 }
+    );
+    await expect(
+      sendOrder(
+        adapter,
+        { ...preview, from: RECIPIENT },
+        DEFAULT_APPROVAL_POLICY
+      )
+    ).rejects.toThrow("Connected wallet does not match the quoted order");
+  });
+});
+
+describe("applySwapPhrases", () => {
+  const swap: SwapIntent = {
+    transaction_type: "swap",
+    chain: "sepolia",
+    amount: "1",
+    fromAsset: "USDC",
+    toAsset: "WETH",
+    side: "buy",
+  };
+
+  it("takes the side from the text only when the backend left it out", () => {
+    const unsided: SwapIntent = { ...swap };
+    delete unsided.side;
+    const text = "buy exactly 1 WETH with USDC";
+    expect(applySwapPhrases(unsided, text).side).toBe("buy");
+    expect(applySwapPhrases({ ...swap, side: "sell" }, text).side).toBe("sell");
+  });
+
+  it("prices what is bought in buy wording", () => {
+    const text = "buy 1 WETH with USDC if the price hits 4000";
+    expect(applySwapPhrases(swap, text)).toMatchObject({
+      limitPrice: "4000",
+      limitPriceOf: "toAsset",
+    });
+    // Also when the backend took the price as written
+    expect(
+      applySwapPhrases({ ...swap, limitPrice: "4000" }, text).limitPriceOf
+    ).toBe("toAsset");
+  });
+
+  it("prices what is sold in sell wording", () => {
+    const intent = applySwapPhrases(
+      { ...swap, fromAsset: "WETH", toAsset: "USDC", side: "sell" },
+      "sell 1 WETH for USDC if the price hits 4000"
+    );
+    expect(intent.limitPrice).toBe("4000");
+    expect(intent.limitPriceOf).toBeUndefined();
+  });
+});
+
+describe("getKnownSpenders", () => {
+  it("includes the CCTP token messenger on chains that bridge", () => {
+    expect(getKnownSpenders(11155111)).toContainEqual({
+      address: getCctp("sepolia").tokenMessenger,
+      name: "CCTP token messenger",
+    });
+  });
+});
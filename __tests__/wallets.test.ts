@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { privyAdapter } from "../util/execution";
+import {
+  findWallets,
+  loadSelectedWallet,
+  saveSelectedWallet,
+  walletChainId,
+  walletLabel,
+  walletPhrase,
+} from "../util/wallets";
+import { mockConnectedWallet, MockProvider } from "./helpers/wallet";
+
+const embedded = mockConnectedWallet(new MockProvider(11155111));
+const ledger = mockConnectedWallet(new MockProvider(1), {
+  address: "0x4444444444444444444444444444444444444444",
+  chainId: "eip155:1",
+  walletClientType: "wallet_connect",
+  connectorType: "wallet_connect",
+  meta: { name: "Ledger Live", id: "com.ledger" },
+});
+
+describe("walletPhrase", () => {
+  it.each([
+    ["send 5 USDC to bob from my ledger wallet", "ledger"],
+    ["swap 1 ETH for USDC using my MetaMask wallet", "MetaMask"],
+    ["pay alice 10 USDC with my embedded wallet", "embedded"],
+  ])("finds the wallet in %p", (text, name) => {
+    expect(walletPhrase(text)).toBe(name);
+  });
+
+  it("ignores requests that name no wallet", () => {
+    expect(walletPhrase("send 5 USDC to bob's wallet")).toBeUndefined();
+  });
+});
+
+describe("findWallets", () => {
+  it("matches names, clients and connectors, or whole words of them", () => {
+    expect(findWallets([embedded, ledger], "ledger")).toEqual([ledger]);
+    expect(findWallets([embedded, ledger], "Ledger Live")).toEqual([ledger]);
+    expect(findWallets([embedded, ledger], "Embedded")).toEqual([embedded]);
+    expect(findWallets([embedded, ledger], "walletconnect")).toEqual([ledger]);
+    expect(findWallets([embedded, ledger], "metamask")).toEqual([]);
+  });
+
+  it("doesn't match fragments of names", () => {
+    expect(findWallets([embedded, ledger], "led")).toEqual([]);
+    expect(findWallets([embedded, ledger], "ed")).toEqual([]);
+  });
+
+  it("returns every wallet a name matches", () => {
+    const otherLedger = mockConnectedWallet(new MockProvider(1), {
+      address: "0x5555555555555555555555555555555555555555",
+      walletClientType: "ledger",
+      connectorType: "injected",
+      meta: { name: "Ledger", id: "com.ledger" },
+    });
+    expect(findWallets([embedded, ledger, otherLedger], "ledger")).toEqual([
+      ledger,
+      otherLedger,
+    ]);
+  });
+});
+
+describe("wallet details", () => {
+  it("labels wallets and reads their chain", () => {
+    expect(walletLabel(embedded)).toBe("Privy embedded wallet");
+    expect(walletLabel(ledger)).toBe("Ledger Live");
+    expect(walletChainId(ledger)).toBe(1);
+  });
+
+  it("remembers the selected wallet", () => {
+    expect(loadSelectedWallet()).toBeUndefined();
+    saveSelectedWallet(ledger.address);
+    expect(loadSelectedWallet()).toBe(ledger.address);
+  });
+});
+
+describe("privyAdapter", () => {
+  it("sends from the selected wallet", () => {
+    const wallets = [embedded, ledger];
+
+    expect(privyAdapter(wallets, ledger.address.toUpperCase()).wallet).toBe(
+      ledger
+    );
+    expect(privyAdapter(wallets).wallet).toBe(embedded);
+    expect(privyAdapter(wallets, "0xgone").wallet).toBe(embedded);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useState } from "react";
+import { Contact, normalizeAlias, validateContact } from "../util/contacts";
+import { abbreviateTransactionHash } from "../util/utils";
+import { getSupportedChains } from "../util/chains";
+
+type AddressBookPanelProps = {
+  contacts: Contact[];
+  onChange: (contacts: Contact[]) => void;
+};
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+const inputClassName = "text-xs py-1 px-2 border-[#808080] rounded-md";
+
+export default function AddressBookPanel({
+  contacts,
+  onChange,
+}: AddressBookPanelProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const [alias, setAlias] = useState<string>("");
+  const [address, setAddress] = useState<string>("");
+  const [chains, setChains] = useState<string[]>([]);
+  const [error, setError] = useState<string>("");
+
+  const addContact = () => {
+    const contact = { alias: normalizeAlias(alias), address, chains };
+    const problem = validateContact(contact, contacts);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onChange([...contacts, contact]);
+    setAlias("");
+    setAddress("");
+    setChains([]);
+    setError("");
+  };
+
+  const toggleChain = (chain: string) =>
+    setChains((current) =>
+      current.includes(chain)
+        ? current.filter((item) => item !== chain)
+        : [...current, chain]
+    );
+
+  return (
+    <div className="mt-8 w-full text-sm">
+      <div className="flex flex-row justify-between items-center mb-2">
+        <span className="font-bold">Address book</span>
+        <button className={buttonClassName} onClick={() => setOpen(!open)}>
+          {open ? "Hide" : "Show"}
+        </button>
+      </div>
+      {open && (
+        <>
+          {contacts.length === 0 ? (
+            <div className="text-[#808080] mb-2">No contacts yet</div>
+          ) : (
+            <ul className="mb-2">
+              {contacts.map((contact) => (
+                <li
+                  key={contact.alias}
+                  className="flex flex-row justify-between items-center py-1 border-b border-[#C0C0C0]"
+                >
+                  <span title={contact.address}>
+                    {contact.alias} ·{" "}
+                    {abbreviateTransactionHash(contact.address)}
+                    <span className="text-[#808080]">
+                      {" "}
+                      ·{" "}
+                      {contact.chains.length > 0
+                        ? contact.chains.join(", ")
+                        : "all chains"}
+                    </span>
+                  </span>
+                  <button
+                    className={buttonClassName}
+                    onClick={() =>
+                      onChange(contacts.filter((item) => item !== contact))
+                    }
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-col space-y-2">
+            <div className="flex flex-row space-x-2">
+              <input
+                value={alias}
+                onChange={(e) => setAlias(e.target.value)}
+                placeholder="Nickname, e.g. mom"
+                className={`${inputClassName} w-1/3`}
+              />
+              <input
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                placeholder="0x..."
+                className={`${inputClassName} w-2/3`}
+              />
+            </div>
+            <div className="flex flex-row items-center space-x-2">
+              <span className="text-[#808080]">Only on</span>
+              {getSupportedChains().map((chain) => (
+                <label key={chain}>
+                  <input
+                    type="checkbox"
+                    checked={chains.includes(chain)}
+                    onChange={() => toggleChain(chain)}
+                    className="mr-1"
+                  />
+                  {chain}
+                </label>
+              ))}
+              <button className={buttonClassName} onClick={addContact}>
+                Add
+              </button>
+            </div>
+            {error && <div className="text-[#FF0000]">{error}</div>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
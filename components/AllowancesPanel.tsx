@@ -0,0 +1,202 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import {
+  Allowance,
+  ApprovalMode,
+  ApprovalPolicy,
+  listAllowances,
+  revokeAllowance,
+} from "../util/approvals";
+import {
+  getChainId,
+  getReadProvider,
+  getSupportedChains,
+} from "../util/chains";
+import { toAppError } from "../util/errors";
+import { ExecutionAdapter } from "../util/execution";
+import TokenLabel from "./TokenLabel";
+
+type AllowancesPanelProps = {
+  adapter: ExecutionAdapter;
+  policy: ApprovalPolicy;
+  onPolicyChange: (policy: ApprovalPolicy) => void;
+};
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+const formatAllowance = ({ amount, token }: Allowance) =>
+  amount.eq(ethers.constants.MaxUint256)
+    ? "unlimited"
+    : ethers.utils.formatUnits(amount, token.decimals);
+
+export default function AllowancesPanel({
+  adapter,
+  policy,
+  onPolicyChange,
+}: AllowancesPanelProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const [allowances, setAllowances] = useState<Allowance[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  const loadAllowances = async () => {
+    const owner = adapter.wallet?.address;
+    if (!owner) {
+      return;
+    }
+    setLoading(true);
+    setError("");
+    try {
+      const perChain = await Promise.all(
+        getSupportedChains().map((chain) => {
+          const chainId = getChainId(chain);
+          return listAllowances(owner, chainId, getReadProvider(chainId));
+        })
+      );
+      setAllowances(perChain.flat());
+    } catch (error) {
+      console.error("Failed to load allowances:", error);
+      setError("Failed to load allowances");
+    }
+    setLoading(false);
+  };
+
+  const revoke = async (allowance: Allowance) => {
+    setLoading(true);
+    setError("");
+    try {
+      const tx = await revokeAllowance(adapter, allowance);
+      await tx.wait(1);
+      setAllowances((current) => current.filter((item) => item !== allowance));
+    } catch (error) {
+      console.error("Revoke failed:", error);
+      setError(
+        `Failed to revoke ${allowance.token.symbol} allowance: ${
+          toAppError(error).message
+        }`
+      );
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="mt-8 w-full text-sm">
+      <div className="flex flex-row justify-between items-center mb-2">
+        <span className="font-bold">Approvals</span>
+        <button
+          className={buttonClassName}
+          onClick={() => {
+            if (!open) {
+              void loadAllowances();
+            }
+            setOpen(!open);
+          }}
+        >
+          {open ? "Hide" : "Show"}
+        </button>
+      </div>
+      {open && (
+        <>
+          <div className="flex flex-row items-center space-x-2 mb-2">
+            <label>
+              Approve{" "}
+              <select
+                value={policy.mode}
+                onChange={(e) =>
+                  onPolicyChange({
+                    ...policy,
+                    mode: e.target.value as ApprovalMode,
+                  })
+                }
+                className="text-xs py-1 border-[#808080] rounded-md"
+              >
+                <option value="exact">exact amount</option>
+                <option value="buffer">amount plus buffer</option>
+                <option value="unlimited">unlimited</option>
+              </select>
+            </label>
+            {policy.mode === "buffer" && (
+              <label>
+                <input
+                  type="number"
+                  min={0}
+                  value={policy.bufferPercent}
+                  onChange={(e) =>
+                    onPolicyChange({
+                      ...policy,
+                      bufferPercent: Number(e.target.value),
+                    })
+                  }
+                  className="text-xs py-1 w-16 border-[#808080] rounded-md"
+                />
+                %
+              </label>
+            )}
+            <label>
+              <input
+                type="checkbox"
+                checked={policy.usePermit}
+                onChange={(e) =>
+                  onPolicyChange({ ...policy, usePermit: e.target.checked })
+                }
+                className="mr-1"
+              />
+              use permits
+            </label>
+          </div>
+          {error && <div className="text-[#FF0000] mb-2">{error}</div>}
+          {loading ? (
+            <div>Loading...</div>
+          ) : allowances.length === 0 ? (
+            <div className="text-[#808080]">No allowances granted</div>
+          ) : (
+            <ul>
+              {allowances.map((allowance) => (
+                <li
+                  key={`${allowance.chainId}:${allowance.token.address}:${allowance.spender.address}`}
+                  className="flex flex-row justify-between items-center py-1 border-b border-[#C0C0C0]"
+                >
+                  <span>
+                    {formatAllowance(allowance)}{" "}
+                    <TokenLabel token={allowance.token} /> to{" "}
+                    {allowance.spender.name}
+                  </span>
+                  <button
+                    className={buttonClassName}
+                    onClick={() => revoke(allowance)}
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
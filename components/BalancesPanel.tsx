@@ -0,0 +1,122 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Balance, formatBalance, getBalances } from "../util/balances";
+
+/**
+ * Balances of `address` across the supported chains, loaded when the address
+ * changes. `refresh` reloads them, e.g. once an action is confirmed.
+ */
+export function useBalances(address: string | undefined) {
+  const [balances, setBalances] = useState<Balance[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  // Only the latest load is applied when refreshes overlap
+  const latest = useRef<number>(0);
+
+  const refresh = useCallback(async () => {
+    const load = ++latest.current;
+    if (!address) {
+      setBalances([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const loaded = await getBalances(address);
+      if (load === latest.current) {
+        setBalances(loaded);
+      }
+    } catch (error) {
+      console.error("Failed to load balances:", error);
+    }
+    if (load === latest.current) {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { balances, loading, refresh };
+}
+
+type BalancesPanelProps = {
+  balances: Balance[];
+  loading: boolean;
+  onRefresh: () => void;
+};
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+export default function BalancesPanel({
+  balances,
+  loading,
+  onRefresh,
+}: BalancesPanelProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const held = balances.filter(({ amount }) => !amount.isZero());
+
+  return (
+    <div className="mt-8 w-full text-sm">
+      <div className="flex flex-row justify-between items-center mb-2">
+        <span className="font-bold">Balances</span>
+        <div className="space-x-2">
+          {open && (
+            <button
+              className={buttonClassName}
+              disabled={loading}
+              onClick={onRefresh}
+            >
+              Refresh
+            </button>
+          )}
+          <button className={buttonClassName} onClick={() => setOpen(!open)}>
+            {open ? "Hide" : "Show"}
+          </button>
+        </div>
+      </div>
+      {open &&
+        (loading && balances.length === 0 ? (
+          <div>Loading...</div>
+        ) : held.length === 0 ? (
+          <div className="text-[#808080]">No balances</div>
+        ) : (
+          <ul>
+            {held.map((balance) => (
+              <li
+                key={`${balance.chain}:${balance.address ?? balance.symbol}`}
+                className="flex flex-row justify-between items-center py-1 border-b border-[#C0C0C0]"
+              >
+                <span>
+                  {formatBalance(balance)} {balance.symbol}
+                </span>
+                <span className="text-[#808080]">{balance.chain}</span>
+              </li>
+            ))}
+          </ul>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React from "react";
+import { ChatTurn } from "../util/conversation";
+
+type ChatThreadProps = {
+  thread: ChatTurn[];
+  loading: boolean;
+  onReply: (text: string) => void;
+  onReset: () => void;
+};
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+// Turns so far while the backend asks for missing details
+export default function ChatThread({
+  thread,
+  loading,
+  onReply,
+  onReset,
+}: ChatThreadProps) {
+  if (thread.length === 0) {
+    return null;
+  }
+  const last = thread[thread.length - 1];
+
+  return (
+    <div className="mt-8 w-full text-sm">
+      <div className="flex flex-row justify-between items-center mb-2">
+        <span className="font-bold">Conversation</span>
+        <button
+          className={buttonClassName}
+          onClick={onReset}
+          disabled={loading}
+        >
+          New conversation
+        </button>
+      </div>
+      <ul>
+        {thread.map((turn, index) => (
+          <li
+            key={index}
+            className={`my-1 flex ${
+              turn.role === "user" ? "justify-end" : "justify-start"
+            }`}
+          >
+            <span
+              className={`py-1 px-2 rounded-md whitespace-pre-wrap ${
+                turn.role === "user" ? "bg-[#E0E0E0]" : "bg-white"
+              }`}
+            >
+              {turn.text}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {last?.role === "assistant" && last.options && (
+        <div className="flex flex-row flex-wrap gap-2 mt-2">
+          {last.options.map((option) => (
+            <button
+              key={option}
+              onClick={() => onReply(option)}
+              disabled={loading}
+              className={buttonClassName}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
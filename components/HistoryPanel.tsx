@@ -0,0 +1,194 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { getChainId } from "../util/chains";
+import { ExecutionAdapter } from "../util/execution";
+import {
+  HistoryEntry,
+  historyEntryUrl,
+  historyToCsv,
+  historyToJson,
+  loadHistory,
+  pollHistoryEntry,
+  saveHistory,
+} from "../util/history";
+import { TrackingAbortedError } from "../util/tracker";
+import { abbreviateTransactionHash } from "../util/utils";
+
+/**
+ * History of the intents executed from the adapter's wallet, persisted in
+ * local storage. Entries still pending when the history is loaded are polled
+ * until they settle, with orders polled on the adapter's order book. Polling
+ * stops when the wallet changes.
+ */
+export function useHistory(adapter: ExecutionAdapter) {
+  const address = adapter.wallet?.address;
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+
+  const updateHistory = useCallback(
+    (update: (entries: HistoryEntry[]) => HistoryEntry[]) => {
+      if (!address) {
+        return;
+      }
+      setHistory((entries) => {
+        const updated = update(entries);
+        saveHistory(address, updated);
+        return updated;
+      });
+    },
+    [address]
+  );
+
+  const addEntry = useCallback(
+    (entry: HistoryEntry) => updateHistory((entries) => [entry, ...entries]),
+    [updateHistory]
+  );
+
+  const updateEntry = useCallback(
+    (id: string, changes: Partial<HistoryEntry>) =>
+      updateHistory((entries) =>
+        entries.map((entry) =>
+          entry.id === id ? { ...entry, ...changes } : entry
+        )
+      ),
+    [updateHistory]
+  );
+
+  useEffect(() => {
+    if (!address) {
+      setHistory([]);
+      return;
+    }
+
+    const loaded = loadHistory(address);
+    setHistory(loaded);
+
+    const controller = new AbortController();
+    for (const entry of loaded.filter(({ status }) => status === "pending")) {
+      pollHistoryEntry(entry, {
+        signal: controller.signal,
+        orderBook: adapter.getOrderBook(getChainId(entry.chain)),
+      })
+        .then((changes) => updateEntry(entry.id, changes))
+        .catch((error) => {
+          if (!(error instanceof TrackingAbortedError)) {
+            console.error(`Failed to poll ${entry.id}:`, error);
+          }
+        });
+    }
+    return () => controller.abort();
+  }, [adapter, address, updateEntry]);
+
+  return { history, addEntry, updateEntry };
+}
+
+function download(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+const statusLabels: Partial<Record<HistoryEntry["status"], string>> = {
+  burned: "burned, awaiting mint",
+};
+
+type HistoryPanelProps = {
+  history: HistoryEntry[];
+  // Finishes the mint of a bridge that was burned, but not minted
+  onResumeBridge: (entry: HistoryEntry) => void;
+};
+
+export default function HistoryPanel({
+  history,
+  onResumeBridge,
+}: HistoryPanelProps) {
+  if (history.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 w-full text-sm">
+      <div className="flex flex-row justify-between items-center mb-2">
+        <span className="font-bold">History</span>
+        <div className="space-x-2">
+          <button
+            className={buttonClassName}
+            onClick={() =>
+              download("history.csv", historyToCsv(history), "text/csv")
+            }
+          >
+            CSV
+          </button>
+          <button
+            className={buttonClassName}
+            onClick={() =>
+              download(
+                "history.json",
+                historyToJson(history),
+                "application/json"
+              )
+            }
+          >
+            JSON
+          </button>
+        </div>
+      </div>
+      <ul className="max-h-64 overflow-y-auto">
+        {history.map((entry) => (
+          <li
+            key={entry.id}
+            className="flex flex-row justify-between py-1 border-b border-[#C0C0C0]"
+          >
+            <span className="truncate mr-4" title={entry.text}>
+              {entry.text}
+            </span>
+            <span className="flex-shrink-0">
+              <a
+                className="text-blue-500 hover:text-blue-700 mr-2"
+                href={historyEntryUrl(entry)}
+              >
+                {abbreviateTransactionHash(entry.id)}
+              </a>
+              {statusLabels[entry.status] ?? entry.status}
+              {entry.status === "burned" && entry.burnMessage && (
+                <button
+                  className={`${buttonClassName} ml-2`}
+                  onClick={() => onResumeBridge(entry)}
+                >
+                  Finish mint
+                </button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,548 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useEffect, useState } from "react";
+import { OrderKind } from "@cowprotocol/cow-sdk";
+import { SwapPreview, TransferPreview } from "../util/utils";
+import {
+  BridgeIntent,
+  Intent,
+  NativeTransferIntent,
+  SwapIntent,
+  TransferIntent,
+  WrapIntent,
+} from "../util/intent";
+import { NativeTransferPreview, WrapPreview } from "../util/native";
+import { getNativeCurrency } from "../util/chains";
+import { BridgePreview } from "../util/cctp";
+import { PreflightResult } from "../util/preflight";
+import { RecipientStatus } from "../util/contacts";
+import { PolicyAction, PolicyCheck } from "../util/policy";
+import TokenLabel from "./TokenLabel";
+
+// An intent resolved into what it will actually do
+export type ResolvedIntent = (
+  | {
+      transaction_type: "transfer";
+      intent: TransferIntent;
+      preview: TransferPreview;
+    }
+  | { transaction_type: "swap"; intent: SwapIntent; preview: SwapPreview }
+  | {
+      transaction_type: "native_transfer";
+      intent: NativeTransferIntent;
+      preview: NativeTransferPreview;
+    }
+  | {
+      transaction_type: "wrap" | "unwrap";
+      intent: WrapIntent;
+      preview: WrapPreview;
+    }
+  | { transaction_type: "bridge"; intent: BridgeIntent; preview: BridgePreview }
+) & {
+  preflight: PreflightResult;
+  // Set for intents that send to a recipient
+  recipientStatus?: RecipientStatus;
+};
+
+export type PendingIntent = ResolvedIntent & { policy: PolicyCheck };
+
+// What the spending policy needs to know about an intent
+export function policyAction(resolved: ResolvedIntent): PolicyAction {
+  const { chain } = resolved.preview;
+  switch (resolved.transaction_type) {
+    case "transfer": {
+      const { token, amount, recipientAddress } = resolved.preview;
+      return {
+        chains: [chain],
+        spend: { symbol: token.symbol, amount },
+        recipient: recipientAddress,
+      };
+    }
+    case "native_transfer": {
+      const { amount, recipientAddress } = resolved.preview;
+      return {
+        chains: [chain],
+        spend: { symbol: getNativeCurrency(chain).symbol, amount },
+        recipient: recipientAddress,
+      };
+    }
+    case "swap": {
+      // Buy orders spend up to their limit amount
+      const { kind, sellToken, sellAmount, limitAmount } = resolved.preview;
+      return {
+        chains: [chain],
+        spend: {
+          symbol: sellToken.symbol,
+          amount: kind === OrderKind.SELL ? sellAmount : limitAmount,
+        },
+      };
+    }
+    case "bridge": {
+      const { destinationChain, token, amount, recipientAddress } =
+        resolved.preview;
+      return {
+        chains: [chain, destinationChain],
+        spend: { symbol: token.symbol, amount },
+        recipient: recipientAddress,
+      };
+    }
+    case "wrap":
+    case "unwrap":
+      // Wrapping only moves funds between the wallet's own balances
+      return { chains: [chain] };
+  }
+}
+
+// Everything that keeps an intent from being confirmed
+export const blockingIssues = (pending: PendingIntent): string[] => [
+  ...pending.preflight.issues.map(({ message }) => message),
+  ...pending.policy.violations.map(
+    (violation) => `spending policy: ${violation}`
+  ),
+];
+
+// The intent fields the user can edit, i.e. everything but its type
+const editableFields = (intent: Intent): Record<string, string> => {
+  const { transaction_type, ...fields } = intent;
+  const editable: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    editable[key] = value === undefined ? "" : String(value);
+  }
+  // Optional, so it may be missing, but it should still be editable
+  if (transaction_type === "swap") {
+    editable["side"] ??= "";
+    editable["slippageBps"] ??= "";
+    editable["limitPrice"] ??= "";
+    editable["validFor"] ??= "";
+  }
+  return editable;
+};
+
+// Labels of the editable fields, as the review shows them where it does
+const fieldLabels: Record<string, string> = {
+  recipientAddress: "Recipient",
+  chain: "Chain",
+  destinationChain: "To chain",
+  amount: "Amount",
+  token: "Token",
+  fromAsset: "Sell",
+  toAsset: "Buy",
+  side: "Side (sell or buy)",
+  slippageBps: "Slippage (basis points)",
+  limitPrice: "Limit price",
+  limitPriceOf: "Limit price of (fromAsset or toAsset)",
+  validFor: "Valid for (seconds)",
+};
+
+const fieldLabel = (intent: Intent, key: string) =>
+  intent.transaction_type === "bridge" && key === "chain"
+    ? "From chain"
+    : fieldLabels[key] ?? key;
+
+type IntentReviewProps = {
+  pending: PendingIntent;
+  loading: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  onEdit: (fields: Record<string, string>) => void;
+};
+
+const buttonClassName =
+  "text-sm bg-[#C0C0C0] hover:bg-[#A0A0A0] py-2 px-4 text-[#000000] border-[#808080] border-2 rounded-md";
+
+export function ExtraConfirmation({
+  reason,
+  confirmed,
+  onChange,
+}: {
+  reason: string;
+  confirmed: boolean;
+  onChange: (confirmed: boolean) => void;
+}) {
+  return (
+    <label className="w-full mt-4 text-sm text-[#FF8000] font-bold">
+      <input
+        type="checkbox"
+        checked={confirmed}
+        onChange={(e) => onChange(e.target.checked)}
+        className="mr-2"
+      />
+      {reason}. Tick to confirm you really mean it.
+    </label>
+  );
+}
+
+function Row({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-row justify-between w-full py-1 border-b border-[#C0C0C0]">
+      <span className="text-[#808080] mr-4">{label}</span>
+      <span className="text-right break-all">{children}</span>
+    </div>
+  );
+}
+
+function EditRow({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="flex flex-row justify-between items-center w-full py-1">
+      <span className="text-[#808080] mr-4">{label}</span>
+      <input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="text-sm py-1 px-2 bg-white border-[#808080] w-2/3 rounded-md"
+      />
+    </label>
+  );
+}
+
+function TransferSummary({ preview }: { preview: TransferPreview }) {
+  const ensResolved = preview.recipient !== preview.recipientAddress;
+  return (
+    <>
+      <Row label="Action">Transfer</Row>
+      <Row label="Recipient">{preview.recipient}</Row>
+      {ensResolved && (
+        <Row label="Resolved address">{preview.recipientAddress}</Row>
+      )}
+      <Row label="Chain">{preview.chain}</Row>
+      <Row label="Token">
+        <TokenLabel token={preview.token} /> ({preview.token.decimals} decimals)
+      </Row>
+      <Row label="Amount">
+        {preview.amount} {preview.token.symbol}
+      </Row>
+      {preview.gasless && (
+        <Row label="Network fee">
+          Paid by the relayer, you only sign an authorization
+        </Row>
+      )}
+    </>
+  );
+}
+
+function NativeTransferSummary({
+  preview,
+}: {
+  preview: NativeTransferPreview;
+}) {
+  const ensResolved = preview.recipient !== preview.recipientAddress;
+  return (
+    <>
+      <Row label="Action">Transfer</Row>
+      <Row label="Recipient">{preview.recipient}</Row>
+      {ensResolved && (
+        <Row label="Resolved address">{preview.recipientAddress}</Row>
+      )}
+      <Row label="Chain">{preview.chain}</Row>
+      <Row label="Amount">
+        {preview.amount} {getNativeCurrency(preview.chain).symbol}
+      </Row>
+    </>
+  );
+}
+
+function WrapSummary({ preview }: { preview: WrapPreview }) {
+  const wrapping = preview.direction === "wrap";
+  const native = getNativeCurrency(preview.chain).symbol;
+  return (
+    <>
+      <Row label="Action">{wrapping ? "Wrap" : "Unwrap"}</Row>
+      <Row label="Chain">{preview.chain}</Row>
+      <Row label="From">
+        {preview.amount}{" "}
+        {wrapping ? native : <TokenLabel token={preview.weth} />}
+      </Row>
+      <Row label="To">
+        {preview.amount}{" "}
+        {wrapping ? <TokenLabel token={preview.weth} /> : native}
+      </Row>
+    </>
+  );
+}
+
+function BridgeSummary({ preview }: { preview: BridgePreview }) {
+  const ensResolved = preview.recipient !== preview.recipientAddress;
+  return (
+    <>
+      <Row label="Action">Bridge (CCTP)</Row>
+      <Row label="Recipient">{preview.recipient}</Row>
+      {ensResolved && (
+        <Row label="Resolved address">{preview.recipientAddress}</Row>
+      )}
+      <Row label="From chain">{preview.chain}</Row>
+      <Row label="To chain">{preview.destinationChain}</Row>
+      <Row label="Amount">
+        {preview.amount} <TokenLabel token={preview.token} />
+      </Row>
+      <Row label="Steps">
+        Burn on {preview.chain}, wait for Circle&apos;s attestation, then mint
+        on {preview.destinationChain}
+      </Row>
+    </>
+  );
+}
+
+function SwapSummary({ preview }: { preview: SwapPreview }) {
+  const selling = preview.kind === OrderKind.SELL;
+  const bound =
+    preview.limitPrice === undefined
+      ? `${preview.slippageBps / 100}% slippage`
+      : "limit price";
+  // The token the limit price is of, and the one it is in
+  const [priced, pricedIn] =
+    preview.limitPriceOf === "sellToken"
+      ? [preview.sellToken, preview.buyToken]
+      : [preview.buyToken, preview.sellToken];
+  return (
+    <>
+      <Row label="Action">
+        {preview.limitPrice === undefined ? "Swap" : "Limit order"}
+        {selling ? "" : " (buy exactly)"}
+      </Row>
+      <Row label="Chain">{preview.chain}</Row>
+      <Row label="Sell">
+        <TokenLabel token={preview.sellToken} /> ({preview.sellToken.decimals}{" "}
+        decimals)
+      </Row>
+      <Row label="Buy">
+        <TokenLabel token={preview.buyToken} /> ({preview.buyToken.decimals}{" "}
+        decimals)
+      </Row>
+      {selling ? (
+        <>
+          <Row label="Amount sold">
+            {preview.sellAmount} {preview.sellToken.symbol}
+          </Row>
+          <Row label="Expected output">
+            {preview.buyAmount} {preview.buyToken.symbol}
+          </Row>
+          <Row label={`Minimum received (${bound})`}>
+            {preview.limitAmount} {preview.buyToken.symbol}
+          </Row>
+        </>
+      ) : (
+        <>
+          <Row label="Amount bought">
+            {preview.buyAmount} {preview.buyToken.symbol}
+          </Row>
+          <Row label="Expected cost">
+            {preview.sellAmount} {preview.sellToken.symbol}
+          </Row>
+          <Row label={`Maximum sold (${bound})`}>
+            {preview.limitAmount} {preview.sellToken.symbol}
+          </Row>
+        </>
+      )}
+      <Row label="Market price">
+        {preview.marketPrice} {preview.buyToken.symbol} per{" "}
+        {preview.sellToken.symbol}
+      </Row>
+      {preview.limitPrice !== undefined && (
+        <Row label="Limit price">
+          {preview.limitPrice} {pricedIn.symbol} per {priced.symbol}
+        </Row>
+      )}
+      <Row label="Valid until">
+        {new Date(preview.validTo * 1000).toLocaleString()}
+      </Row>
+    </>
+  );
+}
+
+function TransactionSummary({ pending }: { pending: PendingIntent }) {
+  switch (pending.transaction_type) {
+    case "transfer":
+      return <TransferSummary preview={pending.preview} />;
+    case "swap":
+      return <SwapSummary preview={pending.preview} />;
+    case "native_transfer":
+      return <NativeTransferSummary preview={pending.preview} />;
+    case "wrap":
+    case "unwrap":
+      return <WrapSummary preview={pending.preview} />;
+    case "bridge":
+      return <BridgeSummary preview={pending.preview} />;
+  }
+}
+
+const recipientNotices: Partial<Record<RecipientStatus, string>> = {
+  first_time:
+    "⚠️ You have never sent anything to this address, and it is not in your address book. Double-check it before confirming.",
+  known: "This address is not in your address book.",
+};
+
+export function Summary({ pending }: { pending: PendingIntent }) {
+  const notice =
+    pending.recipientStatus && recipientNotices[pending.recipientStatus];
+  return (
+    <>
+      <TransactionSummary pending={pending} />
+      {notice && (
+        <div
+          className={`w-full mt-2 ${
+            pending.recipientStatus === "first_time"
+              ? "text-[#FF8000] font-bold"
+              : "text-[#808080]"
+          }`}
+        >
+          {notice}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default function IntentReview({
+  pending,
+  loading,
+  onConfirm,
+  onCancel,
+  onEdit,
+}: IntentReviewProps) {
+  const [editing, setEditing] = useState<boolean>(false);
+  const [confirmed, setConfirmed] = useState<boolean>(false);
+  const [draft, setDraft] = useState<Record<string, string>>(
+    editableFields(pending.intent)
+  );
+
+  // Start over from the latest resolved intent whenever it changes
+  useEffect(() => {
+    setDraft(editableFields(pending.intent));
+    setEditing(false);
+    setConfirmed(false);
+  }, [pending]);
+
+  const issues = blockingIssues(pending);
+  const { confirmation } = pending.policy;
+  const blocked =
+    issues.length > 0 || (confirmation !== undefined && !confirmed);
+
+  const setField = (key: string, value: string) => {
+    setDraft((current) => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-between w-full">
+      <div className="mb-4 font-bold">Review your intent</div>
+      <div className="flex flex-col w-full text-sm">
+        {editing ? (
+          Object.entries(draft).map(([key, value]) => (
+            <EditRow
+              key={key}
+              label={fieldLabel(pending.intent, key)}
+              value={value}
+              onChange={(newValue) => setField(key, newValue)}
+            />
+          ))
+        ) : (
+          <>
+            <Summary pending={pending} />
+            {pending.preflight.estimatedFee && (
+              <Row label="Estimated network fee">
+                {pending.preflight.estimatedFee}{" "}
+                {getNativeCurrency(pending.preview.chain).symbol}
+              </Row>
+            )}
+          </>
+        )}
+      </div>
+      {!editing && issues.length > 0 && (
+        <ul className="w-full mt-4 text-sm text-[#FF0000] list-disc list-inside">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+      {!editing && issues.length === 0 && confirmation && (
+        <ExtraConfirmation
+          reason={confirmation}
+          confirmed={confirmed}
+          onChange={setConfirmed}
+        />
+      )}
+      <div className="flex flex-row items-center mt-4 space-x-2">
+        {editing ? (
+          <>
+            <button
+              onClick={() => onEdit(draft)}
+              className={buttonClassName}
+              disabled={loading}
+            >
+              {loading ? "Loading..." : "Update"}
+            </button>
+            <button
+              onClick={() => {
+                setDraft(editableFields(pending.intent));
+                setEditing(false);
+              }}
+              className={buttonClassName}
+              disabled={loading}
+            >
+              Back
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={onConfirm}
+              className={`${buttonClassName} ${
+                blocked ? "cursor-not-allowed opacity-50" : ""
+              }`}
+              disabled={loading || blocked}
+            >
+              {loading ? "Loading..." : "Confirm"}
+            </button>
+            <button
+              onClick={() => setEditing(true)}
+              className={buttonClassName}
+              disabled={loading}
+            >
+              Edit
+            </button>
+            <button
+              onClick={onCancel}
+              className={buttonClassName}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useState } from "react";
+import { OrderKind } from "@cowprotocol/cow-sdk";
+import {
+  abbreviateTransactionHash,
+  cancelOrder,
+  getOpenOrders,
+  OpenOrder,
+} from "../util/utils";
+import { getSupportedChains, orderUrl } from "../util/chains";
+import { toAppError } from "../util/errors";
+import { ExecutionAdapter } from "../util/execution";
+import TokenLabel from "./TokenLabel";
+
+type OrdersPanelProps = {
+  adapter: ExecutionAdapter;
+  onCancelled: (orderId: string) => void;
+};
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+export default function OrdersPanel({
+  adapter,
+  onCancelled,
+}: OrdersPanelProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const [orders, setOrders] = useState<OpenOrder[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  const loadOrders = async () => {
+    const owner = adapter.wallet?.address;
+    if (!owner) {
+      return;
+    }
+    setLoading(true);
+    setError("");
+    try {
+      const perChain = await Promise.all(
+        getSupportedChains().map((chain) =>
+          getOpenOrders(adapter, owner, chain)
+        )
+      );
+      setOrders(perChain.flat());
+    } catch (error) {
+      console.error("Failed to load orders:", error);
+      setError("Failed to load open orders");
+    }
+    setLoading(false);
+  };
+
+  const cancel = async (order: OpenOrder) => {
+    setLoading(true);
+    setError("");
+    try {
+      await cancelOrder(adapter, order.uid, order.chain);
+      setOrders((current) => current.filter(({ uid }) => uid !== order.uid));
+      onCancelled(order.uid);
+    } catch (error) {
+      console.error("Cancellation failed:", error);
+      setError(
+        `Failed to cancel ${abbreviateTransactionHash(order.uid)}: ${
+          toAppError(error).message
+        }`
+      );
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="mt-8 w-full text-sm">
+      <div className="flex flex-row justify-between items-center mb-2">
+        <span className="font-bold">Open orders</span>
+        <button
+          className={buttonClassName}
+          onClick={() => {
+            if (!open) {
+              void loadOrders();
+            }
+            setOpen(!open);
+          }}
+        >
+          {open ? "Hide" : "Show"}
+        </button>
+      </div>
+      {open && (
+        <>
+          {error && <div className="text-[#FF0000] mb-2">{error}</div>}
+          {loading ? (
+            <div>Loading...</div>
+          ) : orders.length === 0 ? (
+            <div className="text-[#808080]">No open orders</div>
+          ) : (
+            <ul>
+              {orders.map((order) => (
+                <li
+                  key={order.uid}
+                  className="flex flex-row justify-between items-center py-1 border-b border-[#C0C0C0]"
+                >
+                  <span>
+                    <a
+                      className="text-blue-500 hover:text-blue-700 mr-2"
+                      href={orderUrl(order.chain, order.uid)}
+                    >
+                      {abbreviateTransactionHash(order.uid)}
+                    </a>
+                    {order.kind === OrderKind.SELL ? "Sell" : "Buy"}{" "}
+                    {order.sellAmount} <TokenLabel token={order.sellToken} />{" "}
+                    for {order.buyAmount} <TokenLabel token={order.buyToken} />
+                    <span className="text-[#808080]">
+                      {" "}
+                      until {new Date(order.validTo * 1000).toLocaleString()}
+                    </span>
+                  </span>
+                  <button
+                    className={buttonClassName}
+                    onClick={() => cancel(order)}
+                  >
+                    Cancel
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { findChain } from "../util/chains";
+import { findToken } from "../util/tokens";
+import {
+  paymentRequestUrl,
+  SignedPaymentRequest,
+} from "../util/paymentRequest";
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+export const paymentRequestLabel = (request: SignedPaymentRequest) =>
+  `${request.amount} ${
+    findToken(request.chainId, request.token)?.symbol ?? request.token
+  } on ${findChain(request.chainId) ?? `chain ${request.chainId}`}`;
+
+// The shareable link of a payment request, with a QR code of it
+export default function PaymentRequestCard({
+  request,
+}: {
+  request: SignedPaymentRequest;
+}) {
+  const url = paymentRequestUrl(request, window.location.origin);
+  const [qrCode, setQrCode] = useState<string>("");
+  const [copied, setCopied] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(url, { margin: 1, width: 192 })
+      .then((dataUrl) => {
+        if (!cancelled) {
+          setQrCode(dataUrl);
+        }
+      })
+      .catch((error) => console.error("Failed to draw QR code:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full text-sm">
+      <div className="mb-2">
+        Request for {paymentRequestLabel(request)}
+        {request.memo && <> · {request.memo}</>}
+      </div>
+      {qrCode && (
+        <img src={qrCode} alt="QR code of the payment link" className="mb-2" />
+      )}
+      <input
+        readOnly
+        value={url}
+        onFocus={(e) => e.target.select()}
+        className="text-xs py-1 w-full border-[#808080] rounded-md mb-2"
+      />
+      <button className={buttonClassName} onClick={copy}>
+        {copied ? "Copied!" : "Copy link"}
+      </button>
+    </div>
+  );
+}
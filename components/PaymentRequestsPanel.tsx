@@ -0,0 +1,178 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { findChain, transactionUrl } from "../util/chains";
+import {
+  findPayment,
+  loadPaymentRequests,
+  PaymentRequestRecord,
+  savePaymentRequests,
+} from "../util/paymentRequest";
+import { abbreviateTransactionHash } from "../util/utils";
+import PaymentRequestCard, { paymentRequestLabel } from "./PaymentRequestCard";
+
+// How often open requests are checked for a payment
+const PAYMENT_POLL_INTERVAL = 30_000;
+
+/**
+ * Payment requests made from `address`, persisted in local storage. Open
+ * requests are checked for a matching transfer on load and then
+ * periodically, and marked paid once one is seen. Each check carries on
+ * from the last block the previous one looked through.
+ */
+export function usePaymentRequests(address: string | undefined) {
+  const [requests, setRequests] = useState<PaymentRequestRecord[]>([]);
+
+  const updateRequests = useCallback(
+    (update: (requests: PaymentRequestRecord[]) => PaymentRequestRecord[]) => {
+      if (!address) {
+        return;
+      }
+      setRequests((current) => {
+        const updated = update(current);
+        savePaymentRequests(address, updated);
+        return updated;
+      });
+    },
+    [address]
+  );
+
+  const addRequest = useCallback(
+    (request: PaymentRequestRecord) =>
+      updateRequests((current) => [request, ...current]),
+    [updateRequests]
+  );
+
+  const checkPayments = useCallback(async () => {
+    if (!address) {
+      return;
+    }
+    const requests = loadPaymentRequests(address);
+    // A transfer only pays one request, the oldest one it can pay
+    const claimed = new Set(
+      requests.flatMap(({ paidBy }) => (paidBy === undefined ? [] : [paidBy]))
+    );
+    const open = requests
+      .filter(({ paidBy }) => paidBy === undefined)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    for (const request of open) {
+      try {
+        const { paidBy, scannedTo } = await findPayment(request, claimed);
+        if (paidBy) {
+          claimed.add(paidBy);
+        }
+        updateRequests((current) =>
+          current.map((item) =>
+            item.nonce === request.nonce
+              ? { ...item, scannedTo, ...(paidBy && { paidBy }) }
+              : item
+          )
+        );
+      } catch (error) {
+        console.error(`Failed to check payment of ${request.nonce}:`, error);
+      }
+    }
+  }, [address, updateRequests]);
+
+  useEffect(() => {
+    setRequests(address ? loadPaymentRequests(address) : []);
+    void checkPayments();
+    const interval = setInterval(() => {
+      void checkPayments();
+    }, PAYMENT_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [address, checkPayments]);
+
+  return { requests, addRequest };
+}
+
+function paymentUrl({ chainId, paidBy }: PaymentRequestRecord) {
+  const chain = findChain(chainId);
+  return chain && paidBy ? transactionUrl(chain, paidBy) : undefined;
+}
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+export default function PaymentRequestsPanel({
+  requests,
+}: {
+  requests: PaymentRequestRecord[];
+}) {
+  const [open, setOpen] = useState<boolean>(false);
+  const [shown, setShown] = useState<string | undefined>();
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 w-full text-sm">
+      <div className="flex flex-row justify-between items-center mb-2">
+        <span className="font-bold">Payment requests</span>
+        <button className={buttonClassName} onClick={() => setOpen(!open)}>
+          {open ? "Hide" : "Show"}
+        </button>
+      </div>
+      {open && (
+        <ul>
+          {requests.map((request) => (
+            <li key={request.nonce} className="py-1 border-b border-[#C0C0C0]">
+              <div className="flex flex-row justify-between items-center">
+                <span>
+                  {paymentRequestLabel(request)}
+                  {request.memo && <> · {request.memo}</>}
+                </span>
+                {request.paidBy ? (
+                  <a
+                    className="text-blue-500 hover:text-blue-700"
+                    href={paymentUrl(request)}
+                  >
+                    Paid {abbreviateTransactionHash(request.paidBy)}
+                  </a>
+                ) : (
+                  <button
+                    className={buttonClassName}
+                    onClick={() =>
+                      setShown(
+                        shown === request.nonce ? undefined : request.nonce
+                      )
+                    }
+                  >
+                    {shown === request.nonce ? "Hide link" : "Share"}
+                  </button>
+                )}
+              </div>
+              {shown === request.nonce && !request.paidBy && (
+                <div className="mt-2">
+                  <PaymentRequestCard request={request} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
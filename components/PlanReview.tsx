@@ -0,0 +1,202 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useState } from "react";
+import { OrderKind } from "@cowprotocol/cow-sdk";
+import {
+  blockingIssues,
+  ExtraConfirmation,
+  PendingIntent,
+  Summary,
+} from "./IntentReview";
+
+export type StepStatus = "pending" | "running" | "done" | "failed" | "skipped";
+
+export type PlanStep = {
+  pending: PendingIntent;
+  // Index of the earlier step whose output is this step's amount
+  amountFrom?: number;
+  status: StepStatus;
+  error?: string;
+};
+
+// The asset a step leaves in the wallet, as `chain:token address` or
+// `chain:native` for the chain's native currency
+export function outputAsset(pending: PendingIntent): string | undefined {
+  const { chain } = pending.preview;
+  switch (pending.transaction_type) {
+    case "swap":
+      return `${chain}:${pending.preview.buyToken.address.toLowerCase()}`;
+    case "wrap":
+      return `${chain}:${pending.preview.weth.address.toLowerCase()}`;
+    case "unwrap":
+      return `${chain}:native`;
+    case "bridge":
+      return `${
+        pending.preview.destinationChain
+      }:${pending.preview.destinationToken.address.toLowerCase()}`;
+    default:
+      return undefined;
+  }
+}
+
+// The asset a step spends its amount of, as `chain:token address`
+export function inputAsset(pending: PendingIntent): string | undefined {
+  const { chain } = pending.preview;
+  switch (pending.transaction_type) {
+    case "transfer":
+      return `${chain}:${pending.preview.token.address.toLowerCase()}`;
+    case "swap":
+      // The amount of a buy order is what it buys, not what it spends
+      return pending.preview.kind === OrderKind.SELL
+        ? `${chain}:${pending.preview.sellToken.address.toLowerCase()}`
+        : undefined;
+    case "native_transfer":
+    case "wrap":
+      return `${chain}:native`;
+    case "unwrap":
+      return `${chain}:${pending.preview.weth.address.toLowerCase()}`;
+    case "bridge":
+      return `${chain}:${pending.preview.token.address.toLowerCase()}`;
+  }
+}
+
+// What a step is expected to output, before it has actually run
+export function expectedOutput(pending: PendingIntent): string | undefined {
+  switch (pending.transaction_type) {
+    case "swap":
+      return pending.preview.buyAmount;
+    case "wrap":
+    case "unwrap":
+    case "bridge":
+      return pending.preview.amount;
+    default:
+      return undefined;
+  }
+}
+
+const statusLabels: Record<StepStatus, string> = {
+  pending: "Waiting",
+  running: "Running ⌛",
+  done: "Done ✅",
+  failed: "Failed ❌",
+  skipped: "Skipped",
+};
+
+const buttonClassName =
+  "text-sm bg-[#C0C0C0] hover:bg-[#A0A0A0] py-2 px-4 text-[#000000] border-[#808080] border-2 rounded-md";
+
+type PlanReviewProps = {
+  steps: PlanStep[];
+  loading: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+};
+
+// Ordered list of the steps of a multi-step intent and how far along they are
+export default function PlanReview({
+  steps,
+  loading,
+  onConfirm,
+  onClose,
+}: PlanReviewProps) {
+  const [confirmed, setConfirmed] = useState<boolean>(false);
+  const started = steps.some(({ status }) => status !== "pending");
+  const hasIssues = steps.some(
+    ({ pending }) => blockingIssues(pending).length > 0
+  );
+  const confirmations = steps.flatMap(({ pending }, index) =>
+    pending.policy.confirmation
+      ? [`Step ${index + 1}: ${pending.policy.confirmation}`]
+      : []
+  );
+  const blocked = hasIssues || (confirmations.length > 0 && !confirmed);
+
+  return (
+    <div className="flex flex-col items-center justify-between w-full">
+      <div className="mb-4 font-bold">Review your plan</div>
+      <ol className="flex flex-col w-full text-sm space-y-4">
+        {steps.map(({ pending, amountFrom, status, error }, index) => (
+          <li key={index} className="border-[#808080] border-2 rounded-md p-2">
+            <div className="flex flex-row justify-between w-full mb-2">
+              <span className="font-bold">Step {index + 1}</span>
+              <span>{statusLabels[status]}</span>
+            </div>
+            <Summary pending={pending} />
+            {amountFrom !== undefined && status === "pending" && (
+              <div className="text-[#808080] mt-1">
+                The amount is the output of step {amountFrom + 1}, estimated for
+                now, and is checked right before this step runs.
+              </div>
+            )}
+            {status === "pending" && blockingIssues(pending).length > 0 && (
+              <ul className="mt-2 text-[#FF0000] list-disc list-inside">
+                {blockingIssues(pending).map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+            {error && <div className="mt-2 text-[#FF0000]">{error}</div>}
+          </li>
+        ))}
+      </ol>
+      {!started && !hasIssues && confirmations.length > 0 && (
+        <ExtraConfirmation
+          reason={confirmations.join("; ")}
+          confirmed={confirmed}
+          onChange={setConfirmed}
+        />
+      )}
+      <div className="flex flex-row items-center mt-4 space-x-2">
+        {started ? (
+          <button
+            onClick={onClose}
+            className={buttonClassName}
+            disabled={loading}
+          >
+            {loading ? "Running..." : "OK"}
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={onConfirm}
+              className={`${buttonClassName} ${
+                blocked ? "cursor-not-allowed opacity-50" : ""
+              }`}
+              disabled={loading || blocked}
+            >
+              {loading ? "Loading..." : "Confirm all"}
+            </button>
+            <button
+              onClick={onClose}
+              className={buttonClassName}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
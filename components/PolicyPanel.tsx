@@ -0,0 +1,259 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { isValidLimit, SpendingPolicy, TokenLimit } from "../util/policy";
+import { getSupportedChains } from "../util/chains";
+
+type PolicyPanelProps = {
+  policy: SpendingPolicy;
+  onChange: (policy: SpendingPolicy) => void;
+};
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+const inputClassName = "text-xs py-1 px-2 border-[#808080] rounded-md";
+
+const limitFields: { key: keyof TokenLimit; label: string }[] = [
+  { key: "perTransaction", label: "per tx" },
+  { key: "daily", label: "per day" },
+  { key: "confirmAbove", label: "confirm above" },
+];
+
+// Limits are edited as text, where an empty field means no limit
+type LimitDraft = Record<keyof TokenLimit, string>;
+
+type PolicyDraft = {
+  limits: Record<string, LimitDraft>;
+  allowedRecipients: string;
+  deniedRecipients: string;
+  allowedChains: string[];
+};
+
+const toDraft = (policy: SpendingPolicy): PolicyDraft => ({
+  limits: Object.fromEntries(
+    Object.entries(policy.limits).map(([symbol, limit]) => [
+      symbol,
+      {
+        perTransaction: limit.perTransaction ?? "",
+        daily: limit.daily ?? "",
+        confirmAbove: limit.confirmAbove ?? "",
+      },
+    ])
+  ),
+  allowedRecipients: policy.allowedRecipients.join("\n"),
+  deniedRecipients: policy.deniedRecipients.join("\n"),
+  allowedChains: policy.allowedChains,
+});
+
+const parseAddresses = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((address) => address.trim())
+    .filter((address) => address !== "");
+
+// Turns the draft back into a policy, or says what's wrong with it
+function fromDraft(draft: PolicyDraft): SpendingPolicy | string {
+  const limits: Record<string, TokenLimit> = {};
+  for (const [symbol, fields] of Object.entries(draft.limits)) {
+    const limit: TokenLimit = {};
+    for (const { key, label } of limitFields) {
+      const value = fields[key].trim();
+      if (value === "") {
+        continue;
+      }
+      if (!isValidLimit(value)) {
+        return `The ${symbol} limit ${label} "${value}" is not a number`;
+      }
+      limit[key] = value;
+    }
+    limits[symbol] = limit;
+  }
+
+  const allowedRecipients = parseAddresses(draft.allowedRecipients);
+  const deniedRecipients = parseAddresses(draft.deniedRecipients);
+  const invalid = [...allowedRecipients, ...deniedRecipients].find(
+    (address) => !ethers.utils.isAddress(address)
+  );
+  if (invalid !== undefined) {
+    return `"${invalid}" is not an address`;
+  }
+
+  return {
+    limits,
+    allowedRecipients,
+    deniedRecipients,
+    allowedChains: draft.allowedChains,
+  };
+}
+
+export default function PolicyPanel({ policy, onChange }: PolicyPanelProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const [draft, setDraft] = useState<PolicyDraft>(toDraft(policy));
+  const [symbol, setSymbol] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    setDraft(toDraft(policy));
+  }, [policy]);
+
+  const setLimit = (token: string, key: keyof TokenLimit, value: string) =>
+    setDraft((current) => ({
+      ...current,
+      limits: {
+        ...current.limits,
+        [token]: { ...current.limits[token]!, [key]: value },
+      },
+    }));
+
+  const addToken = () => {
+    const token = symbol.trim().toUpperCase();
+    if (token === "" || draft.limits[token] !== undefined) {
+      return;
+    }
+    setDraft((current) => ({
+      ...current,
+      limits: {
+        ...current.limits,
+        [token]: { perTransaction: "", daily: "", confirmAbove: "" },
+      },
+    }));
+    setSymbol("");
+  };
+
+  const removeToken = (token: string) =>
+    setDraft((current) => {
+      const { [token]: _removed, ...limits } = current.limits;
+      return { ...current, limits };
+    });
+
+  const toggleChain = (chain: string) =>
+    setDraft((current) => ({
+      ...current,
+      allowedChains: current.allowedChains.includes(chain)
+        ? current.allowedChains.filter((item) => item !== chain)
+        : [...current.allowedChains, chain],
+    }));
+
+  const save = () => {
+    const updated = fromDraft(draft);
+    if (typeof updated === "string") {
+      setError(updated);
+      return;
+    }
+    setError("");
+    onChange(updated);
+  };
+
+  return (
+    <div className="mt-8 w-full text-sm">
+      <div className="flex flex-row justify-between items-center mb-2">
+        <span className="font-bold">Spending policy</span>
+        <button className={buttonClassName} onClick={() => setOpen(!open)}>
+          {open ? "Hide" : "Show"}
+        </button>
+      </div>
+      {open && (
+        <div className="flex flex-col space-y-2">
+          <span className="text-[#808080]">Limits by token</span>
+          {Object.entries(draft.limits).map(([token, fields]) => (
+            <div key={token} className="flex flex-row items-center space-x-2">
+              <span className="w-12">{token}</span>
+              {limitFields.map(({ key, label }) => (
+                <input
+                  key={key}
+                  value={fields[key]}
+                  onChange={(e) => setLimit(token, key, e.target.value)}
+                  placeholder={label}
+                  className={`${inputClassName} w-24`}
+                />
+              ))}
+              <button
+                className={buttonClassName}
+                onClick={() => removeToken(token)}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-row items-center space-x-2">
+            <input
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+              placeholder="Token, e.g. USDC"
+              className={`${inputClassName} w-32`}
+            />
+            <button className={buttonClassName} onClick={addToken}>
+              Add limit
+            </button>
+          </div>
+          <label className="flex flex-col">
+            <span className="text-[#808080]">
+              Only allow these recipients (one address per line, empty for
+              anyone)
+            </span>
+            <textarea
+              value={draft.allowedRecipients}
+              onChange={(e) =>
+                setDraft({ ...draft, allowedRecipients: e.target.value })
+              }
+              className={`${inputClassName} h-16 resize-none`}
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-[#808080]">Never allow these recipients</span>
+            <textarea
+              value={draft.deniedRecipients}
+              onChange={(e) =>
+                setDraft({ ...draft, deniedRecipients: e.target.value })
+              }
+              className={`${inputClassName} h-16 resize-none`}
+            />
+          </label>
+          <div className="flex flex-row items-center space-x-2">
+            <span className="text-[#808080]">Only on</span>
+            {getSupportedChains().map((chain) => (
+              <label key={chain}>
+                <input
+                  type="checkbox"
+                  checked={draft.allowedChains.includes(chain)}
+                  onChange={() => toggleChain(chain)}
+                  className="mr-1"
+                />
+                {chain}
+              </label>
+            ))}
+          </div>
+          {error && <div className="text-[#FF0000]">{error}</div>}
+          <div>
+            <button className={buttonClassName} onClick={save}>
+              Save policy
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
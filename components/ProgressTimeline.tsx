@@ -0,0 +1,107 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React from "react";
+import { ethers } from "ethers";
+import { ProgressEvent } from "../util/tracker";
+import { Token } from "../util/tokens";
+import { abbreviateTransactionHash } from "../util/utils";
+
+// Tokens of the order being tracked, to format its executed amounts
+export type OrderTokens = { sellToken: Token; buyToken: Token };
+
+const formatExecuted = (
+  sold: string,
+  bought: string,
+  tokens: OrderTokens | undefined
+) =>
+  tokens
+    ? `sold ${ethers.utils.formatUnits(sold, tokens.sellToken.decimals)} ${
+        tokens.sellToken.symbol
+      }, bought ${ethers.utils.formatUnits(bought, tokens.buyToken.decimals)} ${
+        tokens.buyToken.symbol
+      }`
+    : `sold ${sold}, bought ${bought} (base units)`;
+
+function describe(
+  event: ProgressEvent,
+  tokens: OrderTokens | undefined
+): string {
+  switch (event.type) {
+    case "submitted":
+      return `Submitted ${abbreviateTransactionHash(event.id)}`;
+    case "retrying":
+      return `Network error, retrying (attempt ${event.attempt})`;
+    case "replaced":
+      return event.sped_up
+        ? `Sped up as ${abbreviateTransactionHash(event.replacement)}`
+        : `Replaced by ${abbreviateTransactionHash(event.replacement)}`;
+    case "mined":
+      return `Mined in block ${event.blockNumber}`;
+    case "confirmations":
+      return `${event.confirmations} confirmation${
+        event.confirmations === 1 ? "" : "s"
+      }`;
+    case "presignature_pending":
+      return "Waiting for the pre-signature";
+    case "partially_filled":
+      return `Partially filled: ${formatExecuted(
+        event.executedSellAmount,
+        event.executedBuyAmount,
+        tokens
+      )}`;
+    case "fulfilled":
+      return `Filled: ${formatExecuted(
+        event.executedSellAmount,
+        event.executedBuyAmount,
+        tokens
+      )}`;
+    case "expired":
+      return "Expired";
+    case "cancelled":
+      return "Cancelled";
+    case "stage":
+      return event.stage;
+  }
+}
+
+// Live list of what happened to a transaction or order since it was sent
+export default function ProgressTimeline({
+  events,
+  tokens,
+}: {
+  events: ProgressEvent[];
+  tokens?: OrderTokens | undefined;
+}) {
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <ol className="mt-4 w-full text-xs text-[#808080] list-decimal list-inside">
+      {events.map((event, index) => (
+        <li key={index}>{describe(event, tokens)}</li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,425 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { getNativeCurrency, transactionUrl } from "../util/chains";
+import { IntentValidationError, Recurrence } from "../util/intent";
+import {
+  editSchedule,
+  isDue,
+  loadSchedules,
+  pauseSchedule,
+  pollRun,
+  saveSchedules,
+  Schedule,
+  ScheduleRun,
+  updateRun,
+  upcomingRuns,
+} from "../util/schedules";
+import { TrackingAbortedError } from "../util/tracker";
+import { abbreviateTransactionHash } from "../util/utils";
+
+// How often schedules are checked for due runs
+const SCHEDULE_CHECK_INTERVAL = 30_000;
+
+/**
+ * Schedules of `address`, persisted in local storage, along with the ones
+ * whose next run is due, which are checked for periodically. Runs still
+ * pending when the schedules are loaded are polled until they settle, which
+ * stops when the address changes.
+ */
+export function useSchedules(address: string | undefined) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [now, setNow] = useState<number>(Date.now());
+
+  const updateSchedules = useCallback(
+    (update: (schedules: Schedule[]) => Schedule[]) => {
+      if (!address) {
+        return;
+      }
+      setSchedules((current) => {
+        const updated = update(current);
+        saveSchedules(address, updated);
+        return updated;
+      });
+    },
+    [address]
+  );
+
+  const addSchedule = useCallback(
+    (schedule: Schedule) =>
+      updateSchedules((current) => [schedule, ...current]),
+    [updateSchedules]
+  );
+
+  const updateSchedule = useCallback(
+    (id: string, update: (schedule: Schedule) => Schedule) =>
+      updateSchedules((current) =>
+        current.map((schedule) =>
+          schedule.id === id ? update(schedule) : schedule
+        )
+      ),
+    [updateSchedules]
+  );
+
+  const removeSchedule = useCallback(
+    (id: string) =>
+      updateSchedules((current) =>
+        current.filter((schedule) => schedule.id !== id)
+      ),
+    [updateSchedules]
+  );
+
+  useEffect(() => {
+    const loaded = address ? loadSchedules(address) : [];
+    setSchedules(loaded);
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      setNow(Date.now());
+    }, SCHEDULE_CHECK_INTERVAL);
+
+    const controller = new AbortController();
+    for (const schedule of loaded) {
+      for (const { status, hash, fromBlock } of schedule.runs) {
+        if (status !== "pending" || hash === undefined) {
+          continue;
+        }
+        pollRun(hash, schedule.intent.chain, {
+          signal: controller.signal,
+          fromBlock,
+        })
+          .then((changes) =>
+            updateSchedule(schedule.id, (current) =>
+              updateRun(current, hash, changes)
+            )
+          )
+          .catch((error) => {
+            if (!(error instanceof TrackingAbortedError)) {
+              console.error(`Failed to poll ${hash}:`, error);
+            }
+          });
+      }
+    }
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [address, updateSchedule]);
+
+  const due = useMemo(
+    () => schedules.filter((schedule) => isDue(schedule, now)),
+    [schedules, now]
+  );
+  return { schedules, due, addSchedule, updateSchedule, removeSchedule };
+}
+
+const recurrenceLabels: Record<Recurrence, string> = {
+  day: "daily",
+  week: "weekly",
+  month: "monthly",
+};
+
+export const scheduleLabel = ({ intent }: Schedule) =>
+  `${intent.amount} ${
+    intent.transaction_type === "transfer"
+      ? intent.token
+      : getNativeCurrency(intent.chain).symbol
+  } to ${intent.recipientAddress} on ${intent.chain}`;
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+// `datetime-local` inputs take local time, without a time zone
+const toInputTime = (time: number) =>
+  new Date(time - new Date(time).getTimezoneOffset() * 60_000)
+    .toISOString()
+    .slice(0, 16);
+
+function runLabel({ status, error }: ScheduleRun) {
+  if (status === "failed") {
+    return error ? `Failed: ${error}` : "Failed";
+  }
+  return status === "confirmed"
+    ? "Sent"
+    : status === "pending"
+    ? "Awaiting confirmation"
+    : "Skipped";
+}
+
+// How many upcoming runs are listed for each schedule
+const LISTED_RUNS = 3;
+
+function upcomingLabel(schedule: Schedule) {
+  const runs = upcomingRuns(schedule, LISTED_RUNS);
+  if (runs.length === 0) {
+    return "Done";
+  }
+  const upcoming = `Upcoming ${runs.map(formatTime).join(", ")}`;
+  const repeats = schedule.every
+    ? ` · repeats ${recurrenceLabels[schedule.every]}`
+    : "";
+  return schedule.paused
+    ? `Paused · ${upcoming}${repeats}`
+    : `${upcoming}${repeats}`;
+}
+
+type ScheduleDraft = {
+  amount: string;
+  at: string;
+  every: Recurrence | "";
+};
+
+const buttonClassName =
+  "text-xs bg-[#C0C0C0] hover:bg-[#A0A0A0] py-1 px-2 text-[#000000] border-[#808080] border-2 rounded-md";
+
+const inputClassName = "text-xs py-1 px-2 border-[#808080] rounded-md";
+
+type SchedulesPanelProps = {
+  schedules: Schedule[];
+  due: Schedule[];
+  // Whether runs can be authorized ahead, which needs a relayer
+  canAuthorize: boolean;
+  onReview: (schedule: Schedule) => void;
+  onSkip: (schedule: Schedule) => void;
+  onAuthorize: (schedule: Schedule) => void;
+  onChange: (schedule: Schedule) => void;
+  onRemove: (id: string) => void;
+};
+
+export default function SchedulesPanel({
+  schedules,
+  due,
+  canAuthorize,
+  onReview,
+  onSkip,
+  onAuthorize,
+  onChange,
+  onRemove,
+}: SchedulesPanelProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const [editing, setEditing] = useState<string | undefined>();
+  const [draft, setDraft] = useState<ScheduleDraft>({
+    amount: "",
+    at: "",
+    every: "",
+  });
+  const [error, setError] = useState<string>("");
+
+  if (schedules.length === 0) {
+    return null;
+  }
+
+  const startEditing = (schedule: Schedule) => {
+    setEditing(schedule.id);
+    setDraft({
+      amount: schedule.intent.amount,
+      at: toInputTime(schedule.nextRun ?? Date.now()),
+      every: schedule.every ?? "",
+    });
+    setError("");
+  };
+
+  const saveDraft = (schedule: Schedule) => {
+    try {
+      onChange(
+        editSchedule(schedule, {
+          amount: draft.amount,
+          at: new Date(draft.at).getTime(),
+          every: draft.every === "" ? undefined : draft.every,
+        })
+      );
+      setEditing(undefined);
+    } catch (error) {
+      if (!(error instanceof IntentValidationError)) {
+        throw error;
+      }
+      setError(error.issues.join("; "));
+    }
+  };
+
+  return (
+    <div className="mt-8 w-full text-sm">
+      <div className="flex flex-row justify-between items-center mb-2">
+        <span className="font-bold">Scheduled payments</span>
+        <button className={buttonClassName} onClick={() => setOpen(!open)}>
+          {open ? "Hide" : "Show"}
+        </button>
+      </div>
+      {due.map((schedule) => (
+        <div
+          key={schedule.id}
+          className="flex flex-row justify-between items-center py-1 border-b border-[#C0C0C0]"
+        >
+          <span>Due: {scheduleLabel(schedule)}</span>
+          <span>
+            <button
+              className={`${buttonClassName} mr-1`}
+              onClick={() => onReview(schedule)}
+            >
+              Review
+            </button>
+            <button
+              className={buttonClassName}
+              onClick={() => onSkip(schedule)}
+            >
+              Skip
+            </button>
+          </span>
+        </div>
+      ))}
+      {open && (
+        <ul>
+          {schedules.map((schedule) => {
+            const lastRun = schedule.runs[schedule.runs.length - 1];
+            const authorizedRuns = schedule.authorized.length;
+            return (
+              <li key={schedule.id} className="py-1 border-b border-[#C0C0C0]">
+                <div className="flex flex-row justify-between items-center">
+                  <span>{scheduleLabel(schedule)}</span>
+                  <span>
+                    {schedule.nextRun !== undefined && (
+                      <>
+                        <button
+                          className={`${buttonClassName} mr-1`}
+                          onClick={() =>
+                            onChange(pauseSchedule(schedule, !schedule.paused))
+                          }
+                        >
+                          {schedule.paused ? "Resume" : "Pause"}
+                        </button>
+                        <button
+                          className={`${buttonClassName} mr-1`}
+                          onClick={() =>
+                            editing === schedule.id
+                              ? setEditing(undefined)
+                              : startEditing(schedule)
+                          }
+                        >
+                          Edit
+                        </button>
+                      </>
+                    )}
+                    {canAuthorize &&
+                      !schedule.paused &&
+                      schedule.nextRun !== undefined &&
+                      schedule.intent.transaction_type === "transfer" && (
+                        <button
+                          className={`${buttonClassName} mr-1`}
+                          onClick={() => onAuthorize(schedule)}
+                        >
+                          Authorize
+                        </button>
+                      )}
+                    <button
+                      className={buttonClassName}
+                      onClick={() => onRemove(schedule.id)}
+                    >
+                      Delete
+                    </button>
+                  </span>
+                </div>
+                <div className="text-xs text-[#808080]">
+                  {upcomingLabel(schedule)}
+                  {authorizedRuns > 0 && (
+                    <>
+                      {" "}
+                      · {authorizedRuns} run{authorizedRuns === 1 ? "" : "s"}{" "}
+                      authorized
+                    </>
+                  )}
+                </div>
+                {lastRun && (
+                  <div className="text-xs text-[#808080]">
+                    Last run {formatTime(lastRun.at)}: {runLabel(lastRun)}
+                    {lastRun.automatic && " automatically"}
+                    {lastRun.hash && (
+                      <>
+                        {" "}
+                        <a
+                          className="text-blue-500 hover:text-blue-700"
+                          href={transactionUrl(
+                            schedule.intent.chain,
+                            lastRun.hash
+                          )}
+                        >
+                          {abbreviateTransactionHash(lastRun.hash)}
+                        </a>
+                      </>
+                    )}
+                  </div>
+                )}
+                {editing === schedule.id && (
+                  <div className="flex flex-row items-center mt-1">
+                    <input
+                      type="text"
+                      value={draft.amount}
+                      onChange={(e) =>
+                        setDraft({ ...draft, amount: e.target.value })
+                      }
+                      className={`${inputClassName} w-20 mr-1`}
+                    />
+                    <input
+                      type="datetime-local"
+                      value={draft.at}
+                      onChange={(e) =>
+                        setDraft({ ...draft, at: e.target.value })
+                      }
+                      className={`${inputClassName} mr-1`}
+                    />
+                    <select
+                      value={draft.every}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          every: e.target.value as Recurrence | "",
+                        })
+                      }
+                      className={`${inputClassName} mr-1`}
+                    >
+                      <option value="">once</option>
+                      {Object.entries(recurrenceLabels).map(
+                        ([every, label]) => (
+                          <option key={every} value={every}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                    <button
+                      className={buttonClassName}
+                      onClick={() => saveDraft(schedule)}
+                    >
+                      Save
+                    </button>
+                  </div>
+                )}
+                {editing === schedule.id && error && (
+                  <div className="text-[#FF0000]">{error}</div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
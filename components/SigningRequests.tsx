@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React from "react";
+import { SigningRequest } from "../util/execution";
+import { findChain } from "../util/chains";
+
+type SigningRequestsProps = {
+  requests: SigningRequest[];
+};
+
+const requestLabels: Record<SigningRequest["type"], string> = {
+  transaction: "Transaction",
+  typed_data: "Typed data signature",
+  message: "Message signature",
+};
+
+const contents = (request: SigningRequest) =>
+  request.type === "transaction"
+    ? request.transaction
+    : request.type === "typed_data"
+    ? request.typedData
+    : request.message;
+
+// What a dry run would have had the wallet sign, in order
+export default function SigningRequests({ requests }: SigningRequestsProps) {
+  return (
+    <div className="w-full text-sm">
+      <div className="text-center mb-2">
+        Dry run: nothing was signed or sent.{" "}
+        {requests.length === 0
+          ? "The wallet would not be asked for anything."
+          : `The wallet would be asked for ${requests.length} signature${
+              requests.length === 1 ? "" : "s"
+            }:`}
+      </div>
+      <ol className="list-decimal ml-6">
+        {requests.map((request, index) => (
+          <li key={index} className="mb-2">
+            {requestLabels[request.type]} on{" "}
+            {findChain(request.chainId) ?? `chain ${request.chainId}`}
+            <pre className="text-xs bg-[#F0F0F0] p-2 mt-1 rounded-md whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+              {JSON.stringify(contents(request), null, 2)}
+            </pre>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React from "react";
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { findChain, getChain } from "../util/chains";
+import { abbreviateTransactionHash } from "../util/utils";
+import { walletChainId, walletLabel } from "../util/wallets";
+
+type WalletSelectorProps = {
+  wallets: ConnectedWallet[];
+  selected: string | undefined;
+  onSelect: (address: string) => void;
+};
+
+function chainLabel(wallet: ConnectedWallet): string {
+  const chainId = walletChainId(wallet);
+  const chain = chainId === undefined ? undefined : findChain(chainId);
+  return chain ? getChain(chain).name : `chain ${chainId ?? "unknown"}`;
+}
+
+export default function WalletSelector({
+  wallets,
+  selected,
+  onSelect,
+}: WalletSelectorProps) {
+  if (wallets.length === 0) {
+    return null;
+  }
+
+  return (
+    <label className="flex flex-row items-center text-sm mb-4">
+      <span className="font-bold mr-2">Wallet</span>
+      <select
+        value={selected}
+        onChange={(e) => onSelect(e.target.value)}
+        className="text-xs py-1 flex-grow border-[#808080] rounded-md"
+      >
+        {wallets.map((wallet) => (
+          <option key={wallet.address} value={wallet.address}>
+            {`${walletLabel(wallet)} · ${abbreviateTransactionHash(
+              wallet.address
+            )} · ${chainLabel(wallet)}`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
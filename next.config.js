@@ -21,6 +21,16 @@
  * SPDX-License-Identifier: MIT
  */
 
+const fs = require("fs");
+const path = require("path");
+
+// The chain registry can also come from a config file instead of the
+// environment, see chains.config.example.json
+const chainsConfig = path.join(__dirname, "chains.config.json");
+if (!process.env.NEXT_PUBLIC_CHAINS && fs.existsSync(chainsConfig)) {
+  process.env.NEXT_PUBLIC_CHAINS = fs.readFileSync(chainsConfig, "utf8");
+}
+
 /** @type {import('next').NextConfig} */
 module.exports = {
   reactStrictMode: true,
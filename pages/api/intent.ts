@@ -0,0 +1,138 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { PrivyClient } from "@privy-io/server-auth";
+import {
+  getBackendUrl,
+  RateLimiter,
+  sanitizeIntentRequest,
+  sanitizeIntentResponse,
+} from "../../util/intentProxy";
+
+// Requests per user per minute
+const RATE_LIMIT = Number(process.env.INTENT_RATE_LIMIT) || 20;
+const rateLimiter = new RateLimiter(RATE_LIMIT, 60_000);
+// How long the backend may take to answer, in milliseconds
+const BACKEND_TIMEOUT = Number(process.env.INTENT_TIMEOUT_MS) || 30_000;
+
+let privy: PrivyClient | undefined;
+
+function getPrivyClient(): PrivyClient {
+  privy ??= new PrivyClient(
+    process.env.NEXT_PUBLIC_PRIVY_APP_ID!,
+    process.env.PRIVY_APP_SECRET!
+  );
+  return privy;
+}
+
+// Privy's access token, sent as a bearer token or kept in its cookie
+function authToken(req: NextApiRequest): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length);
+  }
+  return req.cookies["privy-token"];
+}
+
+/**
+ * Forwards an intent request of a signed-in user to the backend's `/answer/`
+ * endpoint, and the backend's payload back.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = authToken(req);
+  let userId: string;
+  try {
+    if (!token) {
+      throw new Error("No auth token");
+    }
+    ({ userId } = await getPrivyClient().verifyAuthToken(token));
+  } catch (error) {
+    return res.status(401).json({ error: "Not signed in" });
+  }
+
+  const retryAfter = rateLimiter.take(userId);
+  if (retryAfter !== undefined) {
+    console.warn(`Intent request from ${userId} rate limited`);
+    res.setHeader("Retry-After", Math.ceil(retryAfter / 1000));
+    return res.status(429).json({ error: "Too many requests" });
+  }
+
+  const body = sanitizeIntentRequest(req.body);
+  if (body === undefined) {
+    return res.status(400).json({ error: "Malformed request" });
+  }
+
+  const backendUrl = getBackendUrl();
+  if (backendUrl === undefined) {
+    console.error("BACKEND_URL is not set");
+    return res.status(500).json({ error: "Intent backend not configured" });
+  }
+
+  const started = Date.now();
+  let status: number;
+  let data: unknown;
+  try {
+    const response = await fetch(`${backendUrl}answer/`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(BACKEND_TIMEOUT),
+    });
+    status = response.status;
+    data = response.ok ? await response.json() : undefined;
+  } catch (error) {
+    // A DOMException, which isn't an Error in every runtime
+    if ((error as { name?: unknown } | null)?.name === "TimeoutError") {
+      console.error(
+        `Intent request from ${userId} timed out after ${BACKEND_TIMEOUT}ms`
+      );
+      return res.status(504).json({ error: "Intent backend timed out" });
+    }
+    console.error(`Intent request from ${userId} failed:`, error);
+    return res.status(502).json({ error: "Intent backend unavailable" });
+  }
+  console.info(
+    `Intent request from ${userId}: ${status} in ${Date.now() - started}ms`
+  );
+
+  if (status >= 400) {
+    // Backend errors are not passed on, as they may carry internals
+    return res
+      .status(status >= 500 ? 502 : status)
+      .json({ error: "Intent backend error" });
+  }
+  const payload = sanitizeIntentResponse(data);
+  if (payload === undefined) {
+    return res.status(502).json({ error: "Malformed backend response" });
+  }
+  return res.status(200).json(payload);
+}
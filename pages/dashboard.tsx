@@ -22,27 +22,197 @@
  */
 
 import { useRouter } from "next/router";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { usePrivy, useWallets } from "@privy-io/react-auth";
 import Head from "next/head";
 import {
-  chainToUrl,
   abbreviateTransactionHash,
-  BACKEND_URL,
   sendTransaction,
   sendOrder,
-  waitForOrderStatus,
+  previewTransaction,
+  previewOrder,
 } from "../util/utils";
+import { getChainId, transactionUrl } from "../util/chains";
+import { isMinted, mintBridge, previewBridge, sendBridge } from "../util/cctp";
 import { ethers } from "ethers";
-import { OrderStatus } from "@cowprotocol/cow-sdk";
+import { OrderKind, OrderStatus } from "@cowprotocol/cow-sdk";
+import IntentReview, {
+  PendingIntent,
+  policyAction,
+  ResolvedIntent,
+} from "../components/IntentReview";
+import HistoryPanel, { useHistory } from "../components/HistoryPanel";
+import BalancesPanel, { useBalances } from "../components/BalancesPanel";
+import WalletSelector from "../components/WalletSelector";
+import PaymentRequestCard from "../components/PaymentRequestCard";
+import PaymentRequestsPanel, {
+  usePaymentRequests,
+} from "../components/PaymentRequestsPanel";
+import SchedulesPanel, {
+  scheduleLabel,
+  useSchedules,
+} from "../components/SchedulesPanel";
+import AllowancesPanel from "../components/AllowancesPanel";
+import AddressBookPanel from "../components/AddressBookPanel";
+import PolicyPanel from "../components/PolicyPanel";
+import OrdersPanel from "../components/OrdersPanel";
+import PlanReview, {
+  expectedOutput,
+  inputAsset,
+  outputAsset,
+  PlanStep,
+} from "../components/PlanReview";
+import ProgressTimeline, { OrderTokens } from "../components/ProgressTimeline";
+import ChatThread from "../components/ChatThread";
+import SigningRequests from "../components/SigningRequests";
+import { BackendError, toAppError } from "../util/errors";
+import { balancesContext } from "../util/balances";
+import {
+  createPaymentRequest,
+  decodePaymentRequest,
+  paymentRequestIntent,
+} from "../util/paymentRequest";
+import {
+  relayedPreflight,
+  sendGaslessTransfer,
+  shouldSendGasless,
+} from "../util/gasless";
+import { TransferAuthorization } from "../util/relayer";
+import {
+  AuthorizedRun,
+  authorizeRuns,
+  cancelAuthorizedRuns,
+  createSchedule,
+  droppedRuns,
+  dueAuthorization,
+  recordRun,
+  Schedule,
+  updateRun,
+} from "../util/schedules";
+import {
+  findWallets,
+  loadSelectedWallet,
+  saveSelectedWallet,
+  walletLabel,
+  walletPhrase,
+} from "../util/wallets";
+import {
+  dryRunAdapter,
+  ExecutionAdapter,
+  getExecutionAdapter,
+  SigningRequest,
+} from "../util/execution";
+import {
+  ChatTurn,
+  loadPrompts,
+  rememberPrompt,
+  threadText,
+  toContext,
+} from "../util/conversation";
+import {
+  ApprovalPolicy,
+  DEFAULT_APPROVAL_POLICY,
+  loadApprovalPolicy,
+  saveApprovalPolicy,
+} from "../util/approvals";
+import {
+  DEFAULT_SETTINGS,
+  loadSettings,
+  saveSettings,
+  UserSettings,
+} from "../util/settings";
+import {
+  Contact,
+  loadContacts,
+  recipientStatus,
+  rememberRecipient,
+  saveContacts,
+} from "../util/contacts";
+import {
+  addSpend,
+  checkPolicy,
+  DEFAULT_SPENDING_POLICY,
+  loadSpendingPolicy,
+  loadSpentToday,
+  PolicyViolationError,
+  recordSpend,
+  saveSpendingPolicy,
+  SpendingPolicy,
+} from "../util/policy";
+import {
+  preflightBridge,
+  preflightNativeTransaction,
+  preflightOrder,
+  preflightTransaction,
+  preflightWrap,
+} from "../util/preflight";
+import {
+  HistoryEntry,
+  orderStatusToHistoryStatus,
+  pollHistoryEntry,
+} from "../util/history";
+import {
+  previewNativeTransaction,
+  previewWrap,
+  sendNativeTransaction,
+  sendWrapTransaction,
+} from "../util/native";
+import {
+  applySwapPhrases,
+  Intent,
+  IntentStep,
+  IntentValidationError,
+  INTENT_SCHEMA_VERSION,
+  MAX_SLIPPAGE_BPS,
+  parseIntentResponse,
+  PaymentRequestIntent,
+  ScheduledIntent,
+  ScheduleSpec,
+  TransactionType,
+  validateIntent,
+} from "../util/intent";
+import {
+  currentBlock,
+  ProgressEvent,
+  TrackerOptions,
+  TrackingAbortedError,
+  trackOrder,
+  trackTransaction,
+} from "../util/tracker";
+
+const transactionLabels: Record<string, string> = {
+  transfer: "Transfer",
+  native_transfer: "Transfer",
+  wrap: "Wrap",
+  unwrap: "Unwrap",
+};
 
 export default function DashboardPage() {
   const [intentValue, setIntentValue] = useState<string>("");
+  const [thread, setThread] = useState<ChatTurn[]>([]);
+  // What the user asked for, recorded with the history entries
+  const [requestText, setRequestText] = useState<string>("");
+  const [prompts, setPrompts] = useState<string[]>([]);
+  // Position while stepping through earlier prompts, -1 when not recalling
+  const [recalled, setRecalled] = useState<number>(-1);
   const [status, setStatus] = useState<React.ReactNode>(<></>);
   const [showStatusPopup, setShowStatusPopup] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
+  const [pendingIntent, setPendingIntent] = useState<PendingIntent | null>(
+    null
+  );
+  const [plan, setPlan] = useState<PlanStep[] | null>(null);
+  const [progress, setProgress] = useState<ProgressEvent[]>([]);
+  const [progressTokens, setProgressTokens] = useState<OrderTokens>();
+  // Aborts any tracking still in flight when the dashboard unmounts
+  const tracking = useRef<AbortController>(new AbortController());
+
+  useEffect(() => {
+    const controller = tracking.current;
+    return () => controller.abort();
+  }, []);
   const router = useRouter();
-  const { ready, authenticated, logout } = usePrivy();
+  const { ready, authenticated, logout, getAccessToken } = usePrivy();
 
   useEffect(() => {
     if (ready && !authenticated) {
@@ -51,47 +221,1318 @@ export default function DashboardPage() {
   }, [ready, authenticated, router]);
 
   const { wallets } = useWallets();
-  const queryIntent = async () => {
-    let data: any;
+  // Remembered between sessions, falling back to the first wallet
+  const [selectedWallet, setSelectedWallet] = useState<string | undefined>();
+  // A wallet named in a request, such as "from my ledger wallet", which
+  // sends that request only
+  const [requestWallet, setRequestWallet] = useState<string | undefined>();
+  const adapter = useMemo(
+    () => getExecutionAdapter(wallets, requestWallet ?? selectedWallet),
+    [wallets, requestWallet, selectedWallet]
+  );
+  const { wallet } = adapter;
+
+  useEffect(() => {
+    setSelectedWallet(loadSelectedWallet());
+  }, []);
+
+  // The selected wallet sends again once the named one's request is done
+  useEffect(() => {
+    if (!loading && !pendingIntent && !plan) {
+      setRequestWallet(undefined);
+    }
+  }, [loading, pendingIntent, plan]);
+
+  const selectWallet = (address: string) => {
+    setRequestWallet(undefined);
+    setSelectedWallet(address);
+    saveSelectedWallet(address);
+  };
+  const { history, addEntry, updateEntry } = useHistory(adapter);
+  const {
+    balances,
+    loading: balancesLoading,
+    refresh: refreshBalances,
+  } = useBalances(wallet?.address);
+  const { requests: paymentRequests, addRequest } = usePaymentRequests(
+    wallet?.address
+  );
+  const {
+    schedules,
+    due: dueSchedules,
+    addSchedule,
+    updateSchedule,
+    removeSchedule,
+  } = useSchedules(wallet?.address);
+  // The schedule whose due run is being reviewed
+  const [scheduledRun, setScheduledRun] = useState<string | null>(null);
+  const runningSchedules = useRef<Set<string>>(new Set());
+  // Shows what would be signed instead of sending anything
+  const [dryRun, setDryRun] = useState<boolean>(false);
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy>(
+    DEFAULT_APPROVAL_POLICY
+  );
+
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [spendingPolicy, setSpendingPolicy] = useState<SpendingPolicy>(
+    DEFAULT_SPENDING_POLICY
+  );
+
+  useEffect(() => {
+    const address = wallet?.address;
+    setApprovalPolicy(
+      address ? loadApprovalPolicy(address) : DEFAULT_APPROVAL_POLICY
+    );
+    setSettings(address ? loadSettings(address) : DEFAULT_SETTINGS);
+    setContacts(address ? loadContacts(address) : []);
+    setPrompts(address ? loadPrompts(address) : []);
+    setSpendingPolicy(
+      address ? loadSpendingPolicy(address) : DEFAULT_SPENDING_POLICY
+    );
+  }, [wallet]);
+
+  const updateSettings = (updated: UserSettings) => {
+    setSettings(updated);
+    if (wallet) {
+      saveSettings(wallet.address, updated);
+    }
+  };
+
+  const updateContacts = (updated: Contact[]) => {
+    setContacts(updated);
+    if (wallet) {
+      saveContacts(wallet.address, updated);
+    }
+  };
+
+  // Recipients paid once are no longer flagged as first-time recipients
+  const rememberPaidRecipient = (pending: PendingIntent) => {
+    if (
+      wallet &&
+      (pending.transaction_type === "transfer" ||
+        pending.transaction_type === "native_transfer" ||
+        pending.transaction_type === "bridge")
+    ) {
+      rememberRecipient(wallet.address, pending.preview.recipientAddress);
+    }
+  };
+
+  const updateSpendingPolicy = (policy: SpendingPolicy) => {
+    setSpendingPolicy(policy);
+    if (wallet) {
+      saveSpendingPolicy(wallet.address, policy);
+    }
+  };
+
+  // Checked again right before sending, against what was spent since
+  const enforcePolicy = (pending: PendingIntent) => {
+    const owner = wallet?.address;
+    if (!owner) {
+      throw new Error("No wallet is connected!");
+    }
+    const { violations } = checkPolicy(
+      spendingPolicy,
+      policyAction(pending),
+      loadSpentToday(owner)
+    );
+    if (violations.length > 0) {
+      throw new PolicyViolationError(violations);
+    }
+  };
+
+  // Spends count towards the daily limits as soon as they are sent
+  const recordPendingSpend = (pending: PendingIntent) => {
+    if (wallet) {
+      recordSpend(wallet.address, policyAction(pending).spend);
+    }
+  };
+
+  const updateApprovalPolicy = (policy: ApprovalPolicy) => {
+    setApprovalPolicy(policy);
+    if (wallet) {
+      saveApprovalPolicy(wallet.address, policy);
+    }
+  };
+
+  const showIntentError = (error: unknown) => {
+    console.error("Failed to resolve intent:", error);
+    setStatus(
+      error instanceof IntentValidationError ? (
+        <div style={{ textAlign: "center" }}>
+          Could not understand your intent:
+          <ul className="list-disc text-left mt-2">
+            {error.issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      ) : error instanceof PolicyViolationError ? (
+        <div style={{ textAlign: "center" }}>
+          Blocked by your spending policy:
+          <ul className="list-disc text-left mt-2">
+            {error.violations.map((violation) => (
+              <li key={violation}>{violation}</li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div style={{ textAlign: "center" }}>
+          Could not resolve your intent: {toAppError(error).message}
+        </div>
+      )
+    );
+    setShowStatusPopup(true);
+  };
+
+  // Explains a failure, offering to try again where that may help
+  const showError = (error: unknown, retry?: () => void) => {
+    const appError = toAppError(error);
+    setStatus(
+      <div style={{ textAlign: "center" }}>
+        {appError.message}
+        {retry && appError.retryable && (
+          <div className="mt-4">
+            <button
+              onClick={() => {
+                setShowStatusPopup(false);
+                retry();
+              }}
+              className="text-sm bg-[#C0C0C0] hover:bg-[#A0A0A0] py-2 px-4 text-[#000000] border-[#808080] border-2 rounded-md"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+      </div>
+    );
+    setShowStatusPopup(true);
+  };
+
+  /**
+   * Resolves an intent and checks it against the spending policy, counting
+   * `spentToday` towards the daily limits (by default what was sent today).
+   */
+  const resolveIntent = async (
+    intent: Intent,
+    spentToday?: Record<string, string>,
+    executor: ExecutionAdapter = adapter
+  ): Promise<PendingIntent> => {
+    const resolved = await resolveTransaction(intent, executor);
+    const owner = executor.wallet?.address;
+    return {
+      ...resolved,
+      policy: checkPolicy(
+        spendingPolicy,
+        policyAction(resolved),
+        spentToday ?? (owner ? loadSpentToday(owner) : {})
+      ),
+    };
+  };
+
+  const resolveTransaction = async (
+    intent: Intent,
+    executor: ExecutionAdapter = adapter
+  ): Promise<ResolvedIntent> => {
+    const from = executor.wallet?.address;
+    if (!from) {
+      throw new Error("No wallet is connected!");
+    }
+
+    if (intent.transaction_type === "transfer") {
+      const preview = await previewTransaction(
+        intent.recipientAddress,
+        intent.amount,
+        intent.chain,
+        intent.token,
+        contacts
+      );
+      const preflight = await preflightTransaction(
+        from,
+        preview.chain,
+        preview.token,
+        preview.recipientAddress,
+        preview.amount
+      );
+      // Without gas, USDC and EURC can still be sent through the relayer
+      const gasless = await shouldSendGasless(
+        executor,
+        preview.chain,
+        preview.token,
+        preflight
+      );
+      return {
+        transaction_type: "transfer",
+        intent,
+        preview: gasless ? { ...preview, gasless } : preview,
+        preflight: gasless ? relayedPreflight(preflight) : preflight,
+        recipientStatus: recipientStatus(
+          from,
+          preview.recipientAddress,
+          contacts
+        ),
+      };
+    } else if (intent.transaction_type === "swap") {
+      const preview = await previewOrder(
+        executor,
+        intent.chain,
+        intent.fromAsset,
+        intent.toAsset,
+        intent.amount,
+        {
+          kind: intent.side === "buy" ? OrderKind.BUY : OrderKind.SELL,
+          slippageBps: intent.slippageBps ?? settings.slippageBps,
+          limitPrice: intent.limitPrice,
+          limitPriceOf:
+            intent.limitPriceOf === "toAsset" ? "buyToken" : "sellToken",
+          validFor: intent.validFor,
+        }
+      );
+      const preflight = await preflightOrder(from, preview);
+      return { transaction_type: "swap", intent, preview, preflight };
+    } else if (intent.transaction_type === "native_transfer") {
+      const preview = await previewNativeTransaction(
+        intent.recipientAddress,
+        intent.amount,
+        intent.chain,
+        contacts
+      );
+      const preflight = await preflightNativeTransaction(
+        from,
+        preview.chain,
+        preview.recipientAddress,
+        preview.amount
+      );
+      return {
+        transaction_type: "native_transfer",
+        intent,
+        preview,
+        preflight,
+        recipientStatus: recipientStatus(
+          from,
+          preview.recipientAddress,
+          contacts
+        ),
+      };
+    } else if (intent.transaction_type === "bridge") {
+      const preview = await previewBridge(
+        intent.recipientAddress,
+        intent.amount,
+        intent.chain,
+        intent.destinationChain,
+        contacts
+      );
+      const preflight = await preflightBridge(from, preview);
+      return {
+        transaction_type: "bridge",
+        intent,
+        preview,
+        preflight,
+        recipientStatus: recipientStatus(
+          from,
+          preview.recipientAddress,
+          contacts
+        ),
+      };
+    }
+    const preview = previewWrap(
+      intent.transaction_type,
+      intent.amount,
+      intent.chain
+    );
+    const preflight = await preflightWrap(from, preview);
+    return {
+      transaction_type: intent.transaction_type,
+      intent,
+      preview,
+      preflight,
+    };
+  };
+
+  /**
+   * Resolves every step of a multi-step intent. Steps taking their amount
+   * from an earlier step are previewed with that step's expected output, and
+   * only checked right before they run, when the output is actually there.
+   */
+  const resolvePlan = async (
+    steps: IntentStep[],
+    executor: ExecutionAdapter = adapter
+  ): Promise<PlanStep[]> => {
+    const owner = executor.wallet?.address;
+    // Earlier steps count towards the daily limits of later ones
+    let spent = owner ? loadSpentToday(owner) : {};
+    const resolved: PlanStep[] = [];
+    for (const [index, { intent, amountFrom }] of steps.entries()) {
+      const source =
+        amountFrom === undefined ? undefined : resolved[amountFrom]?.pending;
+      if (source === undefined) {
+        const pending = await resolveIntent(intent, spent, executor);
+        spent = addSpend(spent, policyAction(pending).spend);
+        resolved.push({ pending, status: "pending" });
+        continue;
+      }
+
+      const pending = await resolveIntent(
+        { ...intent, amount: expectedOutput(source) ?? "" },
+        spent,
+        executor
+      );
+      spent = addSpend(spent, policyAction(pending).spend);
+      if (inputAsset(pending) !== outputAsset(source)) {
+        throw new IntentValidationError([
+          `Step ${index + 1} does not spend what step ${
+            amountFrom! + 1
+          } outputs`,
+        ]);
+      }
+      resolved.push({
+        pending: {
+          ...pending,
+          preflight: { issues: [], estimatedFee: undefined },
+        },
+        amountFrom,
+        status: "pending",
+      });
+    }
+    return resolved;
+  };
+
+  const resetConversation = () => {
+    setThread([]);
+    setIntentValue("");
+    setRecalled(-1);
+  };
+
+  // Steps through earlier prompts with the arrow keys
+  const recallPrompt = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    const next =
+      e.key === "ArrowUp" && selectionEnd === 0
+        ? recalled + 1
+        : e.key === "ArrowDown" && selectionStart === value.length
+        ? recalled - 1
+        : undefined;
+    if (next === undefined || next < -1 || next >= prompts.length) {
+      return;
+    }
+    e.preventDefault();
+    setRecalled(next);
+    setIntentValue(next === -1 ? "" : prompts[next] ?? "");
+  };
+
+  const queryIntent = async (question: string = intentValue) => {
+    if (!question.trim()) {
+      return;
+    }
+    const turn: ChatTurn = { role: "user", text: question };
+    const conversation = [...thread, turn];
+    const addReply = (reply: ChatTurn) => setThread([...conversation, reply]);
+    if (wallet) {
+      rememberPrompt(wallet.address, question);
+      setPrompts(loadPrompts(wallet.address));
+    }
+    setRecalled(-1);
+
+    let data: unknown;
     setLoading(true);
     try {
-      const response = await fetch(`${BACKEND_URL}answer/`, {
+      // The route checks the Privy session before asking the backend
+      const accessToken = await getAccessToken();
+      const response = await fetch("/api/intent", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
         },
-        body: JSON.stringify({ question: intentValue }),
+        body: JSON.stringify({
+          question,
+          schema_version: INTENT_SCHEMA_VERSION,
+          history: toContext(thread),
+          balances: balancesContext(balances),
+        }),
       });
       if (!response.ok) {
-        throw new Error("Network response was not ok!");
+        throw new BackendError(response.status);
       }
       data = await response.json();
     } catch (error) {
       console.error("Failed to fetch:", error);
-      setStatus(<div>Failed to query intent due to an error!</div>);
-      setShowStatusPopup(true);
+      // The question stays in the box, so it can also be sent again later
+      showError(
+        error instanceof BackendError ? error : new BackendError(),
+        () => queryIntent(question)
+      );
       setLoading(false);
       return;
     }
+    setIntentValue("");
 
-    if (data.transaction_type === "transfer") {
-      const { recipientAddress, chain, amount, token } = data.response;
-      try {
-        const tx: ethers.providers.TransactionResponse = await sendTransaction(
-          wallets,
+    try {
+      const response = parseIntentResponse(data);
+      if (response.type === "clarification") {
+        const { question: followUp, options } = response.clarification;
+        addReply({
+          role: "assistant",
+          text: followUp,
+          ...(options.length > 0 && { options }),
+        });
+        setLoading(false);
+        return;
+      } else if (response.type === "payment_request") {
+        resetConversation();
+        await requestPayment(response.request);
+        return;
+      } else if (response.type === "scheduled") {
+        scheduleIntent(
+          threadText(conversation),
+          response.intent,
+          response.schedule
+        );
+        resetConversation();
+        setLoading(false);
+        return;
+      }
+      const { steps } = response;
+      const text = threadText(conversation);
+      setThread(conversation);
+      setRequestText(text);
+
+      // "From my ledger wallet" sends this request from that wallet
+      let executor = adapter;
+      const named = walletPhrase(text);
+      if (named !== undefined) {
+        const matches = findWallets(wallets, named);
+        const [chosen] = matches;
+        if (!chosen || matches.length > 1) {
+          addReply({
+            role: "assistant",
+            text:
+              matches.length > 1
+                ? `More than one of your connected wallets matches "${named}": ${matches
+                    .map(walletLabel)
+                    .join(", ")}. Name one of them, or choose it above.`
+                : `None of your connected wallets matches "${named}". Connect it, or choose one of your wallets above.`,
+          });
+          setLoading(false);
+          return;
+        }
+        setRequestWallet(chosen.address);
+        executor = getExecutionAdapter(wallets, chosen.address);
+      }
+
+      const [first] = steps;
+      if (steps.length === 1 && first) {
+        const { intent } = first;
+        setPendingIntent(
+          await resolveIntent(
+            intent.transaction_type === "swap"
+              ? applySwapPhrases(intent, text)
+              : intent,
+            undefined,
+            executor
+          )
+        );
+      } else {
+        setPlan(await resolvePlan(steps, executor));
+      }
+    } catch (error) {
+      if (error instanceof IntentValidationError && error.clarifiable) {
+        // Ask rather than fail, the next answer goes back with the thread.
+        // Replies that don't follow the schema are errors the user can't
+        // answer, so they are shown as such below.
+        addReply({
+          role: "assistant",
+          text: `I need a few more details:\n${error.issues
+            .map((issue) => `• ${issue}`)
+            .join("\n")}`,
+        });
+      } else {
+        showIntentError(error);
+      }
+    }
+    setLoading(false);
+  };
+
+  // Signs a request to be paid and shows its link to share
+  const requestPayment = async (request: PaymentRequestIntent) => {
+    setLoading(true);
+    try {
+      const record = await createPaymentRequest(adapter, request);
+      addRequest(record);
+      setStatus(<PaymentRequestCard request={record} />);
+      setShowStatusPopup(true);
+    } catch (error) {
+      console.error("Payment request failed:", error);
+      showError(error, () => requestPayment(request));
+    }
+    setLoading(false);
+  };
+
+  // Loads the transfer paying a request opened from its link for review
+  const openPaymentRequest = async (encoded: string) => {
+    setLoading(true);
+    try {
+      const request = decodePaymentRequest(encoded);
+      setRequestText(
+        request.memo ? `Payment request: ${request.memo}` : "Payment request"
+      );
+      setPendingIntent(await resolveIntent(paymentRequestIntent(request)));
+    } catch (error) {
+      showIntentError(error);
+    }
+    setLoading(false);
+  };
+
+  // Keeps an intent to run later, or repeatedly, instead of sending it now
+  const scheduleIntent = (
+    text: string,
+    intent: ScheduledIntent,
+    spec: ScheduleSpec
+  ) => {
+    const schedule = createSchedule(text, intent, spec);
+    addSchedule(schedule);
+    setStatus(
+      <div style={{ textAlign: "center" }}>
+        Scheduled {scheduleLabel(schedule)} for{" "}
+        {new Date(spec.at).toLocaleString()}
+        {spec.every && `, repeating every ${spec.every}`}. You will be asked to
+        sign each run when it is due, unless you authorize runs ahead under
+        Scheduled payments.
+      </div>
+    );
+    setShowStatusPopup(true);
+  };
+
+  // Loads the due run of a schedule for review, to be signed like any other
+  const reviewScheduledRun = async (schedule: Schedule) => {
+    setLoading(true);
+    try {
+      setRequestText(schedule.text);
+      setPendingIntent(await resolveIntent(schedule.intent));
+      setScheduledRun(schedule.id);
+    } catch (error) {
+      showIntentError(error);
+    }
+    setLoading(false);
+  };
+
+  const skipScheduledRun = (schedule: Schedule) =>
+    updateSchedule(schedule.id, (current) =>
+      recordRun(current, { status: "skipped" })
+    );
+
+  // Signs the next runs ahead, so that the relayer sends them when due
+  const authorizeSchedule = async (schedule: Schedule) => {
+    setLoading(true);
+    try {
+      const resolved = await resolveTransaction(schedule.intent);
+      if (resolved.transaction_type !== "transfer") {
+        throw new Error("Only token transfers can be authorized ahead");
+      }
+      const { recipientAddress, token } = resolved.preview;
+      const authorized = await authorizeRuns(
+        adapter,
+        schedule,
+        recipientAddress,
+        token
+      );
+      updateSchedule(schedule.id, (current) => ({ ...current, authorized }));
+      setStatus(
+        <div style={{ textAlign: "center" }}>
+          The next {authorized.length} runs of {scheduleLabel(schedule)} will be
+          sent without asking while the dashboard is open. Pausing, editing or
+          deleting the schedule cancels them on chain.
+        </div>
+      );
+      setShowStatusPopup(true);
+    } catch (error) {
+      console.error("Authorizing runs failed:", error);
+      showError(error, () => authorizeSchedule(schedule));
+    }
+    setLoading(false);
+  };
+
+  /**
+   * Cancels authorizations dropped from a schedule on chain, as they could
+   * otherwise still be submitted until they expire.
+   */
+  const cancelDroppedRuns = async (
+    schedule: Schedule,
+    runs: AuthorizedRun[]
+  ) => {
+    if (runs.length === 0) {
+      return;
+    }
+    setLoading(true);
+    try {
+      await cancelAuthorizedRuns(adapter, runs);
+      setStatus(
+        <div style={{ textAlign: "center" }}>
+          Cancelled the authorized runs of {scheduleLabel(schedule)}.
+        </div>
+      );
+    } catch (error) {
+      console.error("Cancelling authorized runs failed:", error);
+      setStatus(
+        <div style={{ textAlign: "center" }}>
+          Could not cancel the authorized runs of {scheduleLabel(schedule)}:{" "}
+          {toAppError(error).message}. They stay valid on chain until they
+          expire, three days after each run.
+          <div className="mt-4">
+            <button
+              onClick={() => {
+                setShowStatusPopup(false);
+                void cancelDroppedRuns(schedule, runs);
+              }}
+              className="text-sm bg-[#C0C0C0] hover:bg-[#A0A0A0] py-2 px-4 text-[#000000] border-[#808080] border-2 rounded-md"
+            >
+              Try again
+            </button>
+          </div>
+        </div>
+      );
+    }
+    setShowStatusPopup(true);
+    setLoading(false);
+  };
+
+  const changeSchedule = (schedule: Schedule) => {
+    const previous = schedules.find(({ id }) => id === schedule.id);
+    updateSchedule(schedule.id, () => schedule);
+    void cancelDroppedRuns(
+      schedule,
+      droppedRuns(previous?.authorized ?? [], schedule)
+    );
+  };
+
+  const deleteSchedule = (id: string) => {
+    const schedule = schedules.find((schedule) => schedule.id === id);
+    removeSchedule(id);
+    if (schedule) {
+      void cancelDroppedRuns(schedule, schedule.authorized);
+    }
+  };
+
+  /**
+   * Cancels the authorization of a run the relayer failed to send, before
+   * the run is asked for again, so that it can't go out twice. A run whose
+   * authorization was used went out after all. One that can't be cancelled
+   * is recorded as failed rather than asked for, as the relayer could still
+   * send it until it expires.
+   */
+  const cancelFailedRelay = async (
+    schedule: Schedule,
+    authorization: TransferAuthorization,
+    dropAuthorization: (current: Schedule) => Schedule
+  ) => {
+    const runs = schedule.authorized.filter(
+      (run) => run.authorization.nonce === authorization.nonce
+    );
+    try {
+      const used = await cancelAuthorizedRuns(adapter, runs);
+      if (used.length > 0) {
+        updateSchedule(schedule.id, (current) =>
+          recordRun(current, { status: "confirmed", automatic: true })
+        );
+        return;
+      }
+      updateSchedule(schedule.id, dropAuthorization);
+      setStatus(
+        <div style={{ textAlign: "center" }}>
+          The relayer failed to send {scheduleLabel(schedule)}, so its
+          authorization was cancelled. The run is due for review instead.
+        </div>
+      );
+    } catch (error) {
+      console.error("Cancelling the failed run's authorization failed:", error);
+      updateSchedule(schedule.id, (current) =>
+        recordRun(current, {
+          status: "failed",
+          automatic: true,
+          error:
+            "The relayer failed, and the authorization stays valid on chain until it expires",
+        })
+      );
+      setStatus(
+        <div style={{ textAlign: "center" }}>
+          The relayer failed to send {scheduleLabel(schedule)}, and its
+          authorization could not be cancelled: {toAppError(error).message}. It
+          stays valid on chain until it expires, three days after the run, so
+          the run is not asked for again.
+        </div>
+      );
+    }
+    setShowStatusPopup(true);
+  };
+
+  /**
+   * Sends a due run with the authorization signed for it. Runs that can't go
+   * out as authorized, such as ones over the spending policy, are left due
+   * for the user to review instead. If the relayer fails, the authorization
+   * is cancelled first, as it may have been submitted all the same.
+   */
+  const runAuthorizedSchedule = async (
+    schedule: Schedule,
+    authorization: TransferAuthorization
+  ) => {
+    const { relayer } = adapter;
+    if (!relayer || runningSchedules.current.has(schedule.id)) {
+      return;
+    }
+    runningSchedules.current.add(schedule.id);
+    const { chain } = schedule.intent;
+    // Prompted for instead, like runs that weren't authorized
+    const dropAuthorization = (current: Schedule): Schedule => ({
+      ...current,
+      authorized: current.authorized.filter(
+        ({ at }) => at !== schedule.nextRun
+      ),
+    });
+    let relaying = false;
+    let hash: string | undefined;
+    try {
+      const pending = await resolveIntent(schedule.intent);
+      if (pending.transaction_type !== "transfer") {
+        throw new Error("Only token transfers can be authorized ahead");
+      }
+      enforcePolicy(pending);
+      if (pending.policy.confirmation !== undefined) {
+        throw new Error(pending.policy.confirmation);
+      }
+      if (
+        pending.preview.recipientAddress.toLowerCase() !==
+        authorization.to.toLowerCase()
+      ) {
+        throw new Error("The recipient changed since the run was authorized");
+      }
+      const [issue] = relayedPreflight(pending.preflight).issues;
+      if (issue) {
+        throw new Error(issue.message);
+      }
+
+      console.log(`Relaying scheduled run through ${relayer.name}...`);
+      const fromBlock = await currentBlock(chain);
+      relaying = true;
+      const sent = await relayer.relay(authorization);
+      hash = sent;
+      recordPendingSpend(pending);
+      updateSchedule(schedule.id, (current) =>
+        recordRun(current, {
+          status: "pending",
+          hash: sent,
+          automatic: true,
+          ...(fromBlock !== undefined && { fromBlock }),
+        })
+      );
+      addEntry({
+        id: hash,
+        kind: "transaction",
+        text: schedule.text,
+        intent: schedule.intent,
+        chain,
+        status: "pending",
+        createdAt: Date.now(),
+        ...(fromBlock !== undefined && { fromBlock }),
+      });
+      const receipt = await trackTransaction(hash, chain, {
+        signal: tracking.current.signal,
+        fromBlock,
+      });
+      if (receipt.status !== 1) {
+        throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+      }
+      updateEntry(hash, { id: receipt.transactionHash, status: "confirmed" });
+      rememberPaidRecipient(pending);
+      void refreshBalances();
+      updateSchedule(schedule.id, (current) =>
+        updateRun(current, sent, {
+          status: "confirmed",
+          hash: receipt.transactionHash,
+        })
+      );
+    } catch (error) {
+      console.error("Scheduled run failed:", error);
+      const relayed = hash;
+      if (error instanceof TrackingAbortedError) {
+        // Left pending, as the page is being left
+      } else if (relayed) {
+        updateEntry(relayed, { status: "failed" });
+        updateSchedule(schedule.id, (current) =>
+          updateRun(current, relayed, {
+            status: "failed",
+            error: toAppError(error).message,
+          })
+        );
+      } else if (relaying) {
+        await cancelFailedRelay(schedule, authorization, dropAuthorization);
+      } else {
+        updateSchedule(schedule.id, dropAuthorization);
+      }
+    }
+    runningSchedules.current.delete(schedule.id);
+  };
+
+  useEffect(() => {
+    for (const schedule of dueSchedules) {
+      const authorization = dueAuthorization(schedule);
+      if (authorization) {
+        void runAuthorizedSchedule(schedule, authorization);
+      }
+    }
+  }, [dueSchedules]);
+
+  const paymentRequestParam = router.query["request"];
+  useEffect(() => {
+    if (typeof paymentRequestParam !== "string" || !wallet) {
+      return;
+    }
+    // Dropped from the URL, so that reloading doesn't bring it back
+    void router.replace("/dashboard", undefined, { shallow: true });
+    void openPaymentRequest(paymentRequestParam);
+  }, [paymentRequestParam, wallet]);
+
+  const editIntent = async (
+    transactionType: TransactionType,
+    fields: Record<string, string>
+  ) => {
+    setLoading(true);
+    try {
+      setPendingIntent(
+        await resolveIntent(validateIntent(transactionType, fields))
+      );
+    } catch (error) {
+      showIntentError(error);
+    }
+    setLoading(false);
+  };
+
+  // Everything but swaps and bridges is a single transaction from the wallet
+  const sendPendingTransaction = async (
+    intent: Exclude<PendingIntent, { transaction_type: "swap" | "bridge" }>,
+    executor = adapter
+  ): Promise<Pick<ethers.providers.TransactionResponse, "hash">> => {
+    if (intent.transaction_type === "transfer") {
+      const { recipientAddress, chain, amount, token, gasless } =
+        intent.preview;
+      if (gasless) {
+        const hash = await sendGaslessTransfer(
+          executor,
           recipientAddress,
-          amount.toString(),
+          amount,
           chain,
           token
         );
+        return { hash };
+      }
+      return await sendTransaction(
+        executor,
+        recipientAddress,
+        amount,
+        chain,
+        token.address
+      );
+    } else if (intent.transaction_type === "native_transfer") {
+      const { recipientAddress, chain, amount } = intent.preview;
+      return await sendNativeTransaction(
+        executor,
+        recipientAddress,
+        amount,
+        chain
+      );
+    }
+    return await sendWrapTransaction(executor, intent.preview);
+  };
+
+  // Bridges are recorded under their burn, and settle once minted
+  const runBridge = async (
+    pending: Extract<PendingIntent, { transaction_type: "bridge" }>,
+    trackerOptions: TrackerOptions
+  ): Promise<string> => {
+    let burnHash: string | undefined;
+    let burnConfirmed = false;
+    try {
+      const mintHash = await sendBridge(
+        adapter,
+        pending.preview,
+        approvalPolicy,
+        (hash) => {
+          burnHash = hash;
+          recordPendingSpend(pending);
+          addEntry({
+            id: hash,
+            kind: "transaction",
+            text: requestText,
+            intent: pending.intent,
+            chain: pending.preview.chain,
+            status: "pending",
+            createdAt: Date.now(),
+          });
+        },
+        {
+          ...trackerOptions,
+          // Kept so that the mint can be finished from the history
+          onBurnConfirmed: (message) => {
+            burnConfirmed = true;
+            if (burnHash) {
+              updateEntry(burnHash, {
+                status: "burned",
+                burnMessage: message,
+              });
+            }
+          },
+        }
+      );
+      if (burnHash) {
+        updateEntry(burnHash, { status: "confirmed" });
+      }
+      rememberPaidRecipient(pending);
+      return mintHash;
+    } catch (error) {
+      if (burnHash && !burnConfirmed) {
+        updateEntry(burnHash, { status: "failed" });
+      }
+      throw error;
+    }
+  };
+
+  // Mints the USDC of a bridge that was burned, but never minted
+  const resumeBridge = async (entry: HistoryEntry) => {
+    const { intent, burnMessage } = entry;
+    if (intent.transaction_type !== "bridge" || burnMessage === undefined) {
+      return;
+    }
+    const { destinationChain } = intent;
+    setLoading(true);
+    setProgress([]);
+    setProgressTokens(undefined);
+    setStatus(
+      <div style={{ textAlign: "center" }}>
+        Finishing the bridge to {destinationChain}. This can take a while ⌛
+      </div>
+    );
+    setShowStatusPopup(true);
+    try {
+      if (await isMinted(burnMessage, destinationChain)) {
+        updateEntry(entry.id, { status: "confirmed" });
+        setStatus(
+          <div style={{ textAlign: "center" }}>
+            The USDC was already minted on {destinationChain}.
+          </div>
+        );
+      } else {
+        const mintHash = await mintBridge(
+          adapter,
+          burnMessage,
+          entry.chain,
+          destinationChain,
+          {
+            signal: tracking.current.signal,
+            onProgress: (event: ProgressEvent) =>
+              setProgress((events) => [...events, event]),
+          }
+        );
+        updateEntry(entry.id, { status: "confirmed" });
+        void refreshBalances();
         setStatus(
           <div style={{ textAlign: "center" }}>
-            Transfer sent! Awaiting Confirmation ⌛<br />
+            Bridge complete! 🎉
+            <br />
             <br />
             View on Explorer:{" "}
             <a
               className="text-blue-500 hover:text-blue-700"
-              href={`${chainToUrl[chain]}${tx.hash}`}
+              href={transactionUrl(destinationChain, mintHash)}
+            >
+              {abbreviateTransactionHash(mintHash)}
+            </a>
+          </div>
+        );
+      }
+    } catch (error) {
+      console.error("Finishing the bridge failed:", error);
+      showError(error, () => resumeBridge(entry));
+    }
+    setLoading(false);
+  };
+
+  /**
+   * Sends a single step of a plan and waits for it to settle, returning its
+   * output for the steps that depend on it.
+   */
+  const runStep = async (
+    pending: PendingIntent,
+    trackerOptions: TrackerOptions
+  ): Promise<string | undefined> => {
+    enforcePolicy(pending);
+    const { chain } = pending.preview;
+    const entry: Omit<HistoryEntry, "id" | "kind"> = {
+      text: requestText,
+      intent: pending.intent,
+      chain,
+      status: "pending",
+      createdAt: Date.now(),
+    };
+
+    if (pending.transaction_type === "bridge") {
+      await runBridge(pending, trackerOptions);
+      return expectedOutput(pending);
+    } else if (pending.transaction_type === "swap") {
+      const orderId = await sendOrder(adapter, pending.preview, approvalPolicy);
+      recordPendingSpend(pending);
+      addEntry({ ...entry, id: orderId, kind: "order" });
+      const order = await trackOrder(orderId, chain, {
+        ...trackerOptions,
+        orderBook: adapter.getOrderBook(getChainId(chain)),
+      });
+      updateEntry(orderId, {
+        status: orderStatusToHistoryStatus(order.status),
+      });
+      if (order.status !== OrderStatus.FULFILLED) {
+        throw new Error(`Order ${order.status}`);
+      }
+      return ethers.utils.formatUnits(
+        order.executedBuyAmount,
+        pending.preview.buyToken.decimals
+      );
+    }
+
+    const fromBlock = await currentBlock(chain);
+    const tx = await sendPendingTransaction(pending);
+    recordPendingSpend(pending);
+    addEntry({
+      ...entry,
+      id: tx.hash,
+      kind: "transaction",
+      ...(fromBlock !== undefined && { fromBlock }),
+    });
+    try {
+      const receipt = await trackTransaction(tx.hash, chain, {
+        ...trackerOptions,
+        fromBlock,
+      });
+      if (receipt.status !== 1) {
+        throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+      }
+      updateEntry(tx.hash, {
+        id: receipt.transactionHash,
+        status: "confirmed",
+      });
+      rememberPaidRecipient(pending);
+    } catch (error) {
+      updateEntry(tx.hash, { status: "failed" });
+      throw error;
+    }
+    return expectedOutput(pending);
+  };
+
+  // Runs the steps of a plan in order, stopping at the first one that fails
+  const executePlan = async (steps: PlanStep[]) => {
+    if (dryRun) {
+      // Later steps are shown with the amounts expected of earlier ones
+      await dryRunIntents(steps.map(({ pending }) => pending));
+      return;
+    }
+    setLoading(true);
+    resetConversation();
+    const updateStep = (index: number, changes: Partial<PlanStep>) =>
+      setPlan(
+        (current) =>
+          current?.map((step, i) =>
+            i === index ? { ...step, ...changes } : step
+          ) ?? null
+      );
+
+    const outputs: (string | undefined)[] = [];
+    let failed = false;
+    for (const [index, step] of steps.entries()) {
+      if (failed) {
+        updateStep(index, { status: "skipped" });
+        continue;
+      }
+      updateStep(index, { status: "running" });
+      setProgress([]);
+      setProgressTokens(
+        step.pending.transaction_type === "swap"
+          ? {
+              sellToken: step.pending.preview.sellToken,
+              buyToken: step.pending.preview.buyToken,
+            }
+          : undefined
+      );
+
+      try {
+        let { pending } = step;
+        if (step.amountFrom !== undefined) {
+          const amount = outputs[step.amountFrom];
+          if (amount === undefined) {
+            throw new Error(`Step ${step.amountFrom + 1} has no output`);
+          }
+          pending = await resolveIntent({ ...pending.intent, amount });
+          updateStep(index, { pending });
+          if (pending.preflight.issues.length > 0) {
+            throw new Error(
+              pending.preflight.issues.map(({ message }) => message).join("; ")
+            );
+          }
+        }
+        outputs[index] = await runStep(pending, {
+          signal: tracking.current.signal,
+          onProgress: (event) => setProgress((events) => [...events, event]),
+        });
+        updateStep(index, { status: "done" });
+      } catch (error) {
+        console.error(`Step ${index + 1} failed:`, error);
+        failed = true;
+        updateStep(index, {
+          status: "failed",
+          error: toAppError(error).message,
+        });
+      }
+    }
+    setLoading(false);
+    void refreshBalances();
+  };
+
+  // Goes through sending the intents, but only shows what would be signed
+  const dryRunIntents = async (intents: PendingIntent[]) => {
+    const requests: SigningRequest[] = [];
+    const executor = dryRunAdapter(adapter, (request) =>
+      requests.push(request)
+    );
+    setLoading(true);
+    try {
+      for (const intent of intents) {
+        await dryRunIntent(intent, executor);
+      }
+      setStatus(<SigningRequests requests={requests} />);
+      setShowStatusPopup(true);
+    } catch (error) {
+      console.error("Dry run failed:", error);
+      showError(error);
+    }
+    setLoading(false);
+  };
+
+  const dryRunIntent = async (
+    intent: PendingIntent,
+    executor: ExecutionAdapter
+  ) => {
+    if (intent.transaction_type === "bridge") {
+      // There is nothing to attest, so the dry run stops at the burn
+      const burnt = new AbortController();
+      await sendBridge(
+        executor,
+        intent.preview,
+        approvalPolicy,
+        () => burnt.abort(),
+        { signal: burnt.signal }
+      ).catch((error) => {
+        if (!(error instanceof TrackingAbortedError)) {
+          throw error;
+        }
+      });
+    } else if (intent.transaction_type === "swap") {
+      await sendOrder(executor, intent.preview, approvalPolicy);
+    } else {
+      await sendPendingTransaction(intent, executor);
+    }
+  };
+
+  const executeIntent = async (
+    intent: PendingIntent,
+    schedule: string | null = scheduledRun
+  ) => {
+    try {
+      enforcePolicy(intent);
+    } catch (error) {
+      showIntentError(error);
+      return;
+    }
+    if (dryRun) {
+      await dryRunIntents([intent]);
+      return;
+    }
+    setLoading(true);
+    setPendingIntent(null);
+    setScheduledRun(null);
+    resetConversation();
+    setProgress([]);
+    setProgressTokens(undefined);
+    const trackerOptions = {
+      signal: tracking.current.signal,
+      onProgress: (event: ProgressEvent) =>
+        setProgress((events) => [...events, event]),
+    };
+
+    if (intent.transaction_type === "bridge") {
+      const { amount, token, chain, destinationChain } = intent.preview;
+      setStatus(
+        <div style={{ textAlign: "center" }}>
+          Bridging {amount} {token.symbol} from {chain} to {destinationChain}.
+          This can take a while ⌛
+        </div>
+      );
+      setShowStatusPopup(true);
+      try {
+        const mintHash = await runBridge(intent, trackerOptions);
+        void refreshBalances();
+        setStatus(
+          <div style={{ textAlign: "center" }}>
+            Bridge complete! 🎉
+            <br />
+            <br />
+            View on Explorer:{" "}
+            <a
+              className="text-blue-500 hover:text-blue-700"
+              href={transactionUrl(destinationChain, mintHash)}
+            >
+              {abbreviateTransactionHash(mintHash)}
+            </a>
+          </div>
+        );
+      } catch (error) {
+        console.error("Bridge failed:", error);
+        // Once burnt, retrying would burn the USDC a second time, so a
+        // burned bridge is finished from the history instead
+        showError(error);
+      }
+      setLoading(false);
+    } else if (intent.transaction_type !== "swap") {
+      const { chain } = intent.preview;
+      const label = transactionLabels[intent.transaction_type];
+      let txHash: string | undefined;
+      try {
+        const fromBlock = await currentBlock(chain);
+        const tx = await sendPendingTransaction(intent);
+        recordPendingSpend(intent);
+        txHash = tx.hash;
+        if (schedule) {
+          updateSchedule(schedule, (current) =>
+            recordRun(current, {
+              status: "pending",
+              hash: tx.hash,
+              ...(fromBlock !== undefined && { fromBlock }),
+            })
+          );
+        }
+        addEntry({
+          id: tx.hash,
+          kind: "transaction",
+          text: requestText,
+          intent: intent.intent,
+          chain,
+          status: "pending",
+          createdAt: Date.now(),
+          ...(fromBlock !== undefined && { fromBlock }),
+        });
+        setStatus(
+          <div style={{ textAlign: "center" }}>
+            {label} sent! Awaiting Confirmation ⌛<br />
+            <br />
+            View on Explorer:{" "}
+            <a
+              className="text-blue-500 hover:text-blue-700"
+              href={transactionUrl(chain, tx.hash)}
             >
               {abbreviateTransactionHash(tx.hash)}
             </a>
@@ -99,17 +1540,38 @@ export default function DashboardPage() {
         );
         setShowStatusPopup(true);
 
-        const receipt = await tx.wait(1);
+        const receipt = await trackTransaction(tx.hash, chain, {
+          ...trackerOptions,
+          fromBlock,
+        });
+        if (receipt.status !== 1) {
+          throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+        }
+        // A sped-up transaction is confirmed under its replacement's hash
+        updateEntry(tx.hash, {
+          id: receipt.transactionHash,
+          status: "confirmed",
+        });
+        if (schedule) {
+          updateSchedule(schedule, (current) =>
+            updateRun(current, tx.hash, {
+              status: "confirmed",
+              hash: receipt.transactionHash,
+            })
+          );
+        }
+        rememberPaidRecipient(intent);
+        void refreshBalances();
 
         setStatus(
           <div style={{ textAlign: "center" }}>
-            Transfer confirmed! 🎉
+            {label} confirmed! 🎉
             <br />
             <br />
             View on Explorer:{" "}
             <a
               className="text-blue-500 hover:text-blue-700"
-              href={`${chainToUrl[chain]}${receipt.transactionHash}`}
+              href={transactionUrl(chain, receipt.transactionHash)}
             >
               {abbreviateTransactionHash(receipt.transactionHash)}
             </a>
@@ -117,21 +1579,78 @@ export default function DashboardPage() {
         );
         setLoading(false);
       } catch (error) {
-        console.error("Transfer failed:", error);
-        setStatus(<div>Oops! Something went wrong</div>);
-        setShowStatusPopup(true);
+        console.error(`${label} failed:`, error);
+        const sent = txHash;
+        if (sent) {
+          updateEntry(sent, { status: "failed" });
+          if (schedule) {
+            updateSchedule(schedule, (current) =>
+              updateRun(current, sent, {
+                status: "failed",
+                error: toAppError(error).message,
+              })
+            );
+          }
+        }
+        // A scheduled run stays due until it is sent
+        showError(
+          error,
+          sent ? undefined : () => executeIntent(intent, schedule)
+        );
         setLoading(false);
       }
-    } else if (data.transaction_type === "swap") {
-      const { chain, amount, fromAsset, toAsset } = data.response;
+    } else {
+      const { chain } = intent.preview;
+      let submitted = false;
       try {
         const orderId = await sendOrder(
-          wallets,
-          chain,
-          fromAsset,
-          toAsset,
-          amount.toString()
+          adapter,
+          intent.preview,
+          approvalPolicy
         );
+        submitted = true;
+        recordPendingSpend(intent);
+        const entry: HistoryEntry = {
+          id: orderId,
+          kind: "order",
+          text: requestText,
+          intent: intent.intent,
+          chain,
+          status: "pending",
+          createdAt: Date.now(),
+        };
+        addEntry(entry);
+
+        // Limit orders can stay open for long, so they're tracked in the
+        // background rather than blocking the dashboard
+        if (intent.preview.limitPrice !== undefined) {
+          const validTo = new Date(intent.preview.validTo * 1000);
+          setStatus(
+            <div style={{ textAlign: "center" }}>
+              Limit order placed! It stays open until {validTo.toLocaleString()}{" "}
+              ⌛
+              <br />
+              <br />
+              You can cancel it under open orders.
+            </div>
+          );
+          setShowStatusPopup(true);
+          setLoading(false);
+          pollHistoryEntry(entry, {
+            orderBook: adapter.getOrderBook(getChainId(chain)),
+          })
+            .then(({ status }) => {
+              updateEntry(orderId, { status });
+              if (status === "fulfilled") {
+                void refreshBalances();
+              }
+            })
+            .catch((error) =>
+              console.error(`Failed to poll ${orderId}:`, error)
+            );
+          return;
+        }
+
         setStatus(
           <div style={{ textAlign: "center" }}>
             Order sent! Your order is being filled ⌛
@@ -139,21 +1658,31 @@ export default function DashboardPage() {
         );
         setShowStatusPopup(true);
 
-        const orderStatus = await waitForOrderStatus(orderId, chain);
+        setProgressTokens({
+          sellToken: intent.preview.sellToken,
+          buyToken: intent.preview.buyToken,
+        });
+        const { status: orderStatus } = await trackOrder(orderId, chain, {
+          ...trackerOptions,
+          orderBook: adapter.getOrderBook(getChainId(chain)),
+        });
+        updateEntry(orderId, {
+          status: orderStatusToHistoryStatus(orderStatus),
+        });
+        if (orderStatus === OrderStatus.FULFILLED) {
+          void refreshBalances();
+        }
         setStatus(
           orderStatus === OrderStatus.FULFILLED ? (
             <div>Order filled! 🎉</div>
           ) : (
-            <div>Uh oh! Something went wrong! Order status: ${orderStatus}</div>
+            <div>Your order was not filled. Order status: {orderStatus}</div>
           )
         );
         setLoading(false);
       } catch (error) {
         console.error("Swap failed:", error);
-        setStatus(
-          <div style={{ textAlign: "center" }}>Oops! Something went wrong</div>
-        );
-        setShowStatusPopup(true);
+        showError(error, submitted ? undefined : () => executeIntent(intent));
         setLoading(false);
       }
     }
@@ -182,9 +1711,18 @@ export default function DashboardPage() {
               </button>
             </div>
 
+            {adapter.name === "Privy" && (
+              <WalletSelector
+                wallets={wallets}
+                selected={wallet?.address}
+                onSelect={selectWallet}
+              />
+            )}
+
             {showStatusPopup ? (
               <div className="flex flex-col items-center justify-between">
                 {status}
+                <ProgressTimeline events={progress} tokens={progressTokens} />
                 <div className="flex flex-row items-center mt-4">
                   <button
                     onClick={() => setShowStatusPopup(false)}
@@ -194,25 +1732,133 @@ export default function DashboardPage() {
                   </button>
                 </div>
               </div>
+            ) : plan ? (
+              <>
+                <PlanReview
+                  steps={plan}
+                  loading={loading}
+                  onConfirm={() => executePlan(plan)}
+                  onClose={() => setPlan(null)}
+                />
+                <ProgressTimeline events={progress} tokens={progressTokens} />
+              </>
+            ) : pendingIntent ? (
+              <IntentReview
+                pending={pendingIntent}
+                loading={loading}
+                onConfirm={() => executeIntent(pendingIntent)}
+                onCancel={() => {
+                  setPendingIntent(null);
+                  setScheduledRun(null);
+                }}
+                onEdit={(fields) =>
+                  editIntent(pendingIntent.transaction_type, fields)
+                }
+              />
             ) : (
               <>
+                <ChatThread
+                  thread={thread}
+                  loading={loading}
+                  onReply={(text) => queryIntent(text)}
+                  onReset={resetConversation}
+                />
                 <textarea
                   value={intentValue}
                   onChange={(e) => setIntentValue(e.target.value)}
-                  placeholder="Enter your heart's desire. Currently supports transfers and swaps."
+                  onKeyDown={recallPrompt}
+                  placeholder={
+                    thread.length > 0
+                      ? "Answer the question above, or add any other details."
+                      : "Enter your heart's desire. Currently supports transfers, swaps, wrapping ETH and bridging USDC."
+                  }
                   className="text-sm py-2 px-4 bg-white border-[#808080] w-full h-24 resize-none my-8 rounded-md shadow-md"
                 />
-                <button
-                  onClick={queryIntent}
-                  className={`text-sm bg-[#C0C0C0] hover:bg-[#A0A0A0] py-2 px-4 text-[#000000] border-[#808080] border-2 rounded-md w-32 ${
-                    loading ? "cursor-not-allowed" : ""
-                  }`}
-                  disabled={loading}
-                >
-                  {loading ? "Loading..." : "Submit"}
-                </button>
+                <div className="flex flex-row justify-between items-center w-full">
+                  <button
+                    onClick={() => queryIntent()}
+                    className={`text-sm bg-[#C0C0C0] hover:bg-[#A0A0A0] py-2 px-4 text-[#000000] border-[#808080] border-2 rounded-md w-32 ${
+                      loading ? "cursor-not-allowed" : ""
+                    }`}
+                    disabled={loading}
+                  >
+                    {loading ? "Loading..." : "Submit"}
+                  </button>
+                  <label className="text-sm">
+                    <input
+                      type="checkbox"
+                      checked={dryRun}
+                      onChange={(e) => setDryRun(e.target.checked)}
+                      className="mr-1"
+                    />
+                    Dry run
+                  </label>
+                  <label className="text-sm">
+                    Default slippage{" "}
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_SLIPPAGE_BPS / 100}
+                      step={0.1}
+                      value={settings.slippageBps / 100}
+                      onChange={(e) =>
+                        updateSettings({
+                          ...settings,
+                          slippageBps: Math.min(
+                            Math.max(
+                              Math.round(Number(e.target.value) * 100),
+                              0
+                            ),
+                            MAX_SLIPPAGE_BPS
+                          ),
+                        })
+                      }
+                      className="text-sm py-1 w-20 border-[#808080] rounded-md"
+                    />
+                    %
+                  </label>
+                </div>
               </>
             )}
+
+            <BalancesPanel
+              balances={balances}
+              loading={balancesLoading}
+              onRefresh={() => void refreshBalances()}
+            />
+            <HistoryPanel
+              history={history}
+              onResumeBridge={(entry) => void resumeBridge(entry)}
+            />
+            <PaymentRequestsPanel requests={paymentRequests} />
+            <SchedulesPanel
+              schedules={schedules}
+              due={dueSchedules.filter(
+                (schedule) => !dueAuthorization(schedule)
+              )}
+              canAuthorize={adapter.relayer !== undefined}
+              onReview={(schedule) => void reviewScheduledRun(schedule)}
+              onSkip={skipScheduledRun}
+              onAuthorize={(schedule) => void authorizeSchedule(schedule)}
+              onChange={changeSchedule}
+              onRemove={deleteSchedule}
+            />
+            <OrdersPanel
+              adapter={adapter}
+              onCancelled={(orderId) =>
+                updateEntry(orderId, { status: "cancelled" })
+              }
+            />
+            <AllowancesPanel
+              adapter={adapter}
+              policy={approvalPolicy}
+              onPolicyChange={updateApprovalPolicy}
+            />
+            <AddressBookPanel contacts={contacts} onChange={updateContacts} />
+            <PolicyPanel
+              policy={spendingPolicy}
+              onChange={updateSpendingPolicy}
+            />
           </div>
         )}
       </main>
@@ -0,0 +1,228 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import {
+  COW_PROTOCOL_VAULT_RELAYER_ADDRESS,
+  SupportedChainId,
+} from "@cowprotocol/cow-sdk";
+import { ERC20_ABI, ERC20_PERMIT_ABI } from "./abi";
+import { findChain, getChain } from "./chains";
+import { readStorage, walletStorageKey, writeStorage } from "./storage";
+import { getRegisteredTokens, Token } from "./tokens";
+import { ExecutionAdapter, switchWalletChain } from "./execution";
+
+export type ApprovalMode = "exact" | "buffer" | "unlimited";
+
+export type ApprovalPolicy = {
+  mode: ApprovalMode;
+  // Extra allowance on top of the required amount, for the "buffer" mode
+  bufferPercent: number;
+  // Sign an EIP-2612 permit instead of sending an approval, where supported
+  usePermit: boolean;
+};
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  mode: "exact",
+  bufferPercent: 10,
+  usePermit: true,
+};
+
+const policyKey = (address: string) =>
+  walletStorageKey("approval-policy", address);
+
+export function loadApprovalPolicy(address: string): ApprovalPolicy {
+  return {
+    ...DEFAULT_APPROVAL_POLICY,
+    ...readStorage<Partial<ApprovalPolicy>>(policyKey(address), {}),
+  };
+}
+
+export function saveApprovalPolicy(address: string, policy: ApprovalPolicy) {
+  writeStorage(policyKey(address), policy);
+}
+
+// Allowance to grant for a spend of `required` under `policy`
+export function approvalAmount(
+  policy: ApprovalPolicy,
+  required: ethers.BigNumber
+): ethers.BigNumber {
+  switch (policy.mode) {
+    case "exact":
+      return required;
+    case "buffer":
+      return required
+        .mul(10000 + Math.round(policy.bufferPercent * 100))
+        .div(10000);
+    case "unlimited":
+      return ethers.constants.MaxUint256;
+  }
+}
+
+export type Spender = { address: string; name: string };
+
+// Contracts this app asks users to approve, per chain
+export function getKnownSpenders(chainId: number): Spender[] {
+  const spenders: Spender[] = [];
+  const vaultRelayer =
+    COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId];
+  if (vaultRelayer) {
+    spenders.push({
+      address: vaultRelayer,
+      name: "CoW Protocol vault relayer",
+    });
+  }
+  // Bridges approve the TokenMessenger to burn USDC
+  const chain = findChain(chainId);
+  const cctp = chain === undefined ? undefined : getChain(chain).cctp;
+  if (cctp) {
+    spenders.push({
+      address: cctp.tokenMessenger,
+      name: "CCTP token messenger",
+    });
+  }
+  return spenders;
+}
+
+export type Allowance = {
+  chainId: number;
+  token: Token;
+  spender: Spender;
+  amount: ethers.BigNumber;
+};
+
+// Non-zero allowances `owner` has granted on registered tokens to known spenders
+export async function listAllowances(
+  owner: string,
+  chainId: number,
+  provider: ethers.providers.Provider
+): Promise<Allowance[]> {
+  const spenders = getKnownSpenders(chainId);
+  const allowances = await Promise.all(
+    getRegisteredTokens(chainId).flatMap((token) => {
+      const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+      return spenders.map(async (spender) => ({
+        chainId,
+        token,
+        spender,
+        amount: (await contract.allowance(
+          owner,
+          spender.address
+        )) as ethers.BigNumber,
+      }));
+    })
+  );
+  return allowances.filter(({ amount }) => !amount.isZero());
+}
+
+export async function revokeAllowance(
+  adapter: ExecutionAdapter,
+  allowance: Allowance
+): Promise<ethers.providers.TransactionResponse> {
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
+  }
+
+  await switchWalletChain(wallet, allowance.chainId);
+  const provider = await wallet.getEthersProvider();
+  const contract = new ethers.Contract(
+    allowance.token.address,
+    ERC20_ABI,
+    provider.getSigner()
+  );
+  console.log("Revoking allowance...");
+  return await contract.approve(allowance.spender.address, 0);
+}
+
+/**
+ * Returns the EIP-712 domain of `token` if it implements EIP-2612 permits,
+ * or null otherwise.
+ */
+export async function getPermitDomain(
+  token: string,
+  chainId: number,
+  provider: ethers.providers.Provider
+): Promise<ethers.TypedDataDomain | null> {
+  const contract = new ethers.Contract(token, ERC20_PERMIT_ABI, provider);
+  let name: string;
+  let domainSeparator: string;
+  try {
+    [name, domainSeparator] = await Promise.all([
+      contract.name(),
+      contract.DOMAIN_SEPARATOR(),
+      contract.nonces(ethers.constants.AddressZero),
+    ]);
+  } catch {
+    return null;
+  }
+
+  // Not every permit token exposes version(); "1" is the usual default
+  const version: string = await contract.version().catch(() => "1");
+  const domain = { name, version, chainId, verifyingContract: token };
+  // Only trust the domain if it matches what the token itself uses
+  return ethers.utils._TypedDataEncoder.hashDomain(domain) === domainSeparator
+    ? domain
+    : null;
+}
+
+/**
+ * Signs an EIP-2612 permit and returns the encoded `permit` call, to be
+ * executed by whoever spends the allowance.
+ */
+export async function signPermit(
+  signer: ethers.providers.JsonRpcSigner,
+  domain: ethers.TypedDataDomain,
+  spender: string,
+  value: ethers.BigNumber,
+  deadline: number
+): Promise<string> {
+  const token = domain.verifyingContract!;
+  const owner = await signer.getAddress();
+  const contract = new ethers.Contract(token, ERC20_PERMIT_ABI, signer);
+  const nonce: ethers.BigNumber = await contract.nonces(owner);
+
+  const signature = await signer._signTypedData(
+    domain,
+    {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    { owner, spender, value, nonce, deadline }
+  );
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+  return contract.interface.encodeFunctionData("permit", [
+    owner,
+    spender,
+    value,
+    deadline,
+    v,
+    r,
+    s,
+  ]);
+}
@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "./abi";
+import {
+  getChainId,
+  getNativeCurrency,
+  getReadProvider,
+  getSupportedChains,
+} from "./chains";
+import { getRegisteredTokens } from "./tokens";
+
+export type Balance = {
+  chain: string;
+  symbol: string;
+  // Unset for the chain's native currency
+  address?: string;
+  decimals: number;
+  amount: ethers.BigNumber;
+};
+
+// Native and registered token balances of `owner` on `chain`
+export async function getChainBalances(
+  owner: string,
+  chain: string
+): Promise<Balance[]> {
+  const chainId = getChainId(chain);
+  const provider = getReadProvider(chainId);
+  const { symbol, decimals } = getNativeCurrency(chain);
+  const native = provider
+    .getBalance(owner)
+    .then((amount): Balance => ({ chain, symbol, decimals, amount }));
+  const tokens = getRegisteredTokens(chainId).map(async (token) => {
+    const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+    return {
+      chain,
+      symbol: token.symbol,
+      address: token.address,
+      decimals: token.decimals,
+      amount: (await contract.balanceOf(owner)) as ethers.BigNumber,
+    };
+  });
+  return Promise.all([native, ...tokens]);
+}
+
+/**
+ * Balances of `owner` on every supported chain. A chain whose RPC fails is
+ * left out rather than failing the others.
+ */
+export async function getBalances(
+  owner: string,
+  chains: string[] = getSupportedChains()
+): Promise<Balance[]> {
+  const results = await Promise.allSettled(
+    chains.map((chain) => getChainBalances(owner, chain))
+  );
+  return results.flatMap((result, index) => {
+    if (result.status === "rejected") {
+      console.error(
+        `Failed to load balances on ${chains[index]}:`,
+        result.reason
+      );
+      return [];
+    }
+    return result.value;
+  });
+}
+
+export const formatBalance = ({ amount, decimals }: Balance) =>
+  ethers.utils.formatUnits(amount, decimals);
+
+/**
+ * Non-zero balances as sent to the backend, so that amounts like "half my
+ * USDC" can be worked out from them.
+ */
+export const balancesContext = (balances: Balance[]) =>
+  balances
+    .filter(({ amount }) => !amount.isZero())
+    .map((balance) => ({
+      chain: balance.chain,
+      token: balance.address ?? balance.symbol,
+      symbol: balance.symbol,
+      amount: formatBalance(balance),
+    }));
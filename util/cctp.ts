@@ -0,0 +1,317 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { MESSAGE_TRANSMITTER_ABI, TOKEN_MESSENGER_ABI } from "./abi";
+import { ApprovalPolicy } from "./approvals";
+import { getCctp, getChainId, getReadProvider } from "./chains";
+import { ExecutionAdapter, switchWalletChain } from "./execution";
+import { Contact } from "./contacts";
+import { findToken, Token } from "./tokens";
+import {
+  currentBlock,
+  pollUntil,
+  trackTransaction,
+  TrackerOptions,
+} from "./tracker";
+import { checkAllowanceAndApproveIfNecessary, resolveRecipient } from "./utils";
+
+export type BridgePreview = {
+  recipient: string;
+  recipientAddress: string;
+  // USDC is burnt on the source chain and minted on the destination chain
+  chain: string;
+  destinationChain: string;
+  token: Token;
+  destinationToken: Token;
+  amount: string;
+};
+
+// Signs off burn messages, so that the destination chain can mint the USDC
+export type AttestationService = {
+  // Resolves to the attestation, or undefined while it's not signed yet
+  getAttestation(messageHash: string): Promise<string | undefined>;
+};
+
+// Circle's attestation service, also known as Iris
+export function irisAttestationService(baseUrl: string): AttestationService {
+  return {
+    async getAttestation(messageHash: string) {
+      const response = await fetch(`${baseUrl}attestations/${messageHash}`);
+      // The message isn't known until the burn is picked up by the service
+      if (response.status === 404) {
+        return undefined;
+      }
+      if (!response.ok) {
+        throw new Error(`Attestation service returned ${response.status}`);
+      }
+      const { status, attestation } = await response.json();
+      return status === "complete" ? attestation : undefined;
+    },
+  };
+}
+
+export type BridgeOptions = TrackerOptions & {
+  attestationService?: AttestationService;
+  // Called with the burn's message once the burn is confirmed
+  onBurnConfirmed?: (message: string) => void;
+};
+
+// Attestations can take a while, up to half an hour on mainnet
+const ATTESTATION_TIMEOUT = 45 * 60 * 1000;
+
+function getUsdc(chain: string): Token {
+  const usdc = findToken(getChainId(chain), "USDC");
+  if (usdc === undefined) {
+    throw new Error(`USDC is not available on ${chain}`);
+  }
+  return usdc;
+}
+
+export async function previewBridge(
+  receiver: string,
+  amount: string,
+  chain: string,
+  destinationChain: string,
+  contacts: Contact[] = []
+): Promise<BridgePreview> {
+  if (chain === destinationChain) {
+    throw new Error("Bridging needs two different chains");
+  }
+  const source = getCctp(chain);
+  const destination = getCctp(destinationChain);
+  if (source.attestationUrl !== destination.attestationUrl) {
+    throw new Error(
+      `USDC cannot be bridged between ${chain} and ${destinationChain}`
+    );
+  }
+
+  const token = getUsdc(chain);
+  // fail early on amounts USDC can't represent
+  ethers.utils.parseUnits(amount, token.decimals);
+
+  return {
+    recipient: receiver,
+    recipientAddress: await resolveRecipient(
+      receiver,
+      destinationChain,
+      contacts
+    ),
+    chain,
+    destinationChain,
+    token,
+    destinationToken: getUsdc(destinationChain),
+    amount,
+  };
+}
+
+// Builds the call burning USDC on the source chain, for sending or simulating
+export function buildBurnRequest(
+  preview: BridgePreview
+): ethers.providers.TransactionRequest {
+  const { tokenMessenger } = getCctp(preview.chain);
+  const { domain } = getCctp(preview.destinationChain);
+  return {
+    to: tokenMessenger,
+    data: new ethers.utils.Interface(TOKEN_MESSENGER_ABI).encodeFunctionData(
+      "depositForBurn",
+      [
+        ethers.utils.parseUnits(preview.amount, preview.token.decimals),
+        domain,
+        ethers.utils.hexZeroPad(preview.recipientAddress, 32),
+        preview.token.address,
+      ]
+    ),
+  };
+}
+
+// Pulls the message to attest out of the burn transaction's logs
+export function getBurnMessage(
+  chain: string,
+  receipt: ethers.providers.TransactionReceipt
+): string {
+  const { messageTransmitter } = getCctp(chain);
+  const transmitter = new ethers.utils.Interface(MESSAGE_TRANSMITTER_ABI);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== messageTransmitter.toLowerCase()) {
+      continue;
+    }
+    const parsed = transmitter.parseLog(log);
+    if (parsed.name === "MessageSent") {
+      return parsed.args["message"];
+    }
+  }
+  throw new Error(`No CCTP message in ${receipt.transactionHash}`);
+}
+
+export function waitForAttestation(
+  messageHash: string,
+  attestationService: AttestationService,
+  options: TrackerOptions = {}
+): Promise<string> {
+  return pollUntil(
+    messageHash,
+    () => attestationService.getAttestation(messageHash),
+    {
+      ...options,
+      timeoutMs: options.timeoutMs ?? ATTESTATION_TIMEOUT,
+      maxDelayMs: options.maxDelayMs ?? 60 * 1000,
+    }
+  );
+}
+
+/**
+ * Whether the message of a burn was already received on the destination
+ * chain, as it can only be minted once.
+ */
+export async function isMinted(
+  message: string,
+  destinationChain: string
+): Promise<boolean> {
+  // Messages start with their version, source domain, destination domain
+  // and nonce, of which the source domain and nonce identify them
+  const bytes = ethers.utils.arrayify(message);
+  const sourceAndNonce = ethers.utils.keccak256(
+    ethers.utils.concat([bytes.slice(4, 8), bytes.slice(12, 20)])
+  );
+  const transmitter = new ethers.Contract(
+    getCctp(destinationChain).messageTransmitter,
+    MESSAGE_TRANSMITTER_ABI,
+    getReadProvider(getChainId(destinationChain))
+  );
+  const used: ethers.BigNumber = await transmitter.usedNonces(sourceAndNonce);
+  return !used.isZero();
+}
+
+/**
+ * Finishes a bridge whose burn is confirmed: waits for Circle to attest the
+ * burn's message, then receives it on the destination chain to mint, and
+ * resolves to the hash of the mint. Also used to resume a bridge whose mint
+ * didn't go through, such as when the page was closed.
+ */
+export async function mintBridge(
+  adapter: ExecutionAdapter,
+  message: string,
+  chain: string,
+  destinationChain: string,
+  options: BridgeOptions = {}
+): Promise<string> {
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
+  }
+  const {
+    attestationService = irisAttestationService(getCctp(chain).attestationUrl),
+    ...trackerOptions
+  } = options;
+  const stage = (name: string) =>
+    trackerOptions.onProgress?.({ type: "stage", stage: name });
+
+  stage("Waiting for the attestation");
+  const attestation = await waitForAttestation(
+    ethers.utils.keccak256(message),
+    attestationService,
+    trackerOptions
+  );
+
+  stage(`Minting on ${destinationChain}`);
+  await switchWalletChain(wallet, getChainId(destinationChain));
+  const destinationSigner = (await wallet.getEthersProvider()).getSigner();
+  const transmitter = new ethers.Contract(
+    getCctp(destinationChain).messageTransmitter,
+    MESSAGE_TRANSMITTER_ABI,
+    destinationSigner
+  );
+  const mintBlock = await currentBlock(destinationChain);
+  const mint: ethers.providers.TransactionResponse =
+    await transmitter.receiveMessage(message, attestation);
+  const mintReceipt = await trackTransaction(mint.hash, destinationChain, {
+    ...trackerOptions,
+    fromBlock: mintBlock,
+  });
+  if (mintReceipt.status !== 1) {
+    throw new Error(`Mint ${mintReceipt.transactionHash} reverted`);
+  }
+  return mintReceipt.transactionHash;
+}
+
+/**
+ * Bridges USDC with CCTP: approves the TokenMessenger if needed and burns on
+ * the source chain, then mints on the destination chain with `mintBridge`.
+ * Calls `onBurnt` with the burn's hash as soon as it is sent, and
+ * `onBurnConfirmed` with its message once it is mined, which is what a
+ * failed mint can be resumed from. Resolves to the hash of the mint.
+ */
+export async function sendBridge(
+  adapter: ExecutionAdapter,
+  preview: BridgePreview,
+  approvalPolicy: ApprovalPolicy,
+  onBurnt: (hash: string) => void,
+  options: BridgeOptions = {}
+): Promise<string> {
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
+  }
+  const stage = (name: string) =>
+    options.onProgress?.({ type: "stage", stage: name });
+
+  await switchWalletChain(wallet, getChainId(preview.chain));
+  const signer = (await wallet.getEthersProvider()).getSigner();
+  const { tokenMessenger } = getCctp(preview.chain);
+
+  stage(`Approving ${preview.token.symbol}`);
+  // The TokenMessenger pulls the USDC itself, so a permit can't be used
+  await checkAllowanceAndApproveIfNecessary(
+    tokenMessenger,
+    preview.token.address,
+    signer,
+    ethers.utils.parseUnits(preview.amount, preview.token.decimals),
+    { ...approvalPolicy, usePermit: false },
+    0
+  );
+
+  stage(
+    `Burning ${preview.amount} ${preview.token.symbol} on ${preview.chain}`
+  );
+  const burnBlock = await currentBlock(preview.chain);
+  const burn = await signer.sendTransaction(buildBurnRequest(preview));
+  onBurnt(burn.hash);
+  const burnReceipt = await trackTransaction(burn.hash, preview.chain, {
+    ...options,
+    fromBlock: burnBlock,
+  });
+  if (burnReceipt.status !== 1) {
+    throw new Error(`Burn ${burnReceipt.transactionHash} reverted`);
+  }
+  const message = getBurnMessage(preview.chain, burnReceipt);
+  options.onBurnConfirmed?.(message);
+
+  return await mintBridge(
+    adapter,
+    message,
+    preview.chain,
+    preview.destinationChain,
+    options
+  );
+}
@@ -0,0 +1,272 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { SupportedChainId } from "@cowprotocol/cow-sdk";
+
+export type NativeCurrency = {
+  name: string;
+  symbol: string;
+  decimals: number;
+};
+
+// Circle's Cross-Chain Transfer Protocol, for moving USDC between chains
+export type CctpConfig = {
+  domain: number;
+  tokenMessenger: string;
+  messageTransmitter: string;
+  // Attestation API, which differs between testnets and mainnets
+  attestationUrl: string;
+};
+
+export type ChainConfig = {
+  chainId: number;
+  // Shown to the user; the registry key is what intents refer to
+  name: string;
+  // Tried in order, falling back to the next one when a call stalls or fails
+  rpcUrls: string[];
+  // Explorer base URL, with a trailing slash
+  explorerUrl: string;
+  nativeCurrency: NativeCurrency;
+  // Whether swaps go through CoW Protocol on this chain
+  cowSupported: boolean;
+  // CoW explorer base URL for orders, with a trailing slash
+  orderExplorerUrl?: string;
+  // Set on chains USDC can be bridged from and to
+  cctp?: CctpConfig;
+};
+
+const ETHER: NativeCurrency = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+const CCTP_TESTNET_ATTESTATION_URL = "https://iris-api-sandbox.circle.com/";
+const CCTP_MAINNET_ATTESTATION_URL = "https://iris-api.circle.com/";
+
+const DEFAULT_CHAINS: Record<string, ChainConfig> = {
+  sepolia: {
+    chainId: 11155111,
+    name: "Sepolia",
+    rpcUrls: ["https://rpc.ankr.com/eth_sepolia", "https://rpc.sepolia.org"],
+    explorerUrl: "https://sepolia.etherscan.io/",
+    nativeCurrency: ETHER,
+    cowSupported: true,
+    orderExplorerUrl: "https://explorer.cow.fi/sepolia/orders/",
+    cctp: {
+      domain: 0,
+      tokenMessenger: "0x9f3B8679c73C2Fef8b59B4f3444d4e156fb70AA5",
+      messageTransmitter: "0x7865fAfC2db2093669d92c0F33AeEF291086BEFD",
+      attestationUrl: CCTP_TESTNET_ATTESTATION_URL,
+    },
+  },
+  mainnet: {
+    chainId: 1,
+    name: "Ethereum",
+    rpcUrls: ["https://rpc.ankr.com/eth", "https://cloudflare-eth.com"],
+    explorerUrl: "https://etherscan.io/",
+    nativeCurrency: ETHER,
+    cowSupported: true,
+    orderExplorerUrl: "https://explorer.cow.fi/orders/",
+    cctp: {
+      domain: 0,
+      tokenMessenger: "0xBd3fa81B58Ba92a82136038B25aDec7066af3155",
+      messageTransmitter: "0x0a992d191DEeC32aFe36203Ad87D7d289a738F81",
+      attestationUrl: CCTP_MAINNET_ATTESTATION_URL,
+    },
+  },
+  base: {
+    chainId: 8453,
+    name: "Base",
+    rpcUrls: ["https://mainnet.base.org"],
+    explorerUrl: "https://basescan.org/",
+    nativeCurrency: ETHER,
+    cowSupported: false,
+    cctp: {
+      domain: 6,
+      tokenMessenger: "0x1682Ae6375C4E4A97e4B583BC394c861A46D8962",
+      messageTransmitter: "0xAD09780d193884d503182aD4588450C416D6F9D4",
+      attestationUrl: CCTP_MAINNET_ATTESTATION_URL,
+    },
+  },
+  "base-sepolia": {
+    chainId: 84532,
+    name: "Base Sepolia",
+    rpcUrls: ["https://sepolia.base.org"],
+    explorerUrl: "https://sepolia.basescan.org/",
+    nativeCurrency: ETHER,
+    cowSupported: false,
+    cctp: {
+      domain: 6,
+      tokenMessenger: "0x9f3B8679c73C2Fef8b59B4f3444d4e156fb70AA5",
+      messageTransmitter: "0x7865fAfC2db2093669d92c0F33AeEF291086BEFD",
+      attestationUrl: CCTP_TESTNET_ATTESTATION_URL,
+    },
+  },
+};
+
+// ENS names are always resolved on mainnet
+const ENS_CHAIN_ID = 1;
+
+const withTrailingSlash = (url: string) =>
+  url.endsWith("/") ? url : `${url}/`;
+
+/**
+ * Builds the registry from the defaults and `NEXT_PUBLIC_CHAINS`, a JSON
+ * object of chain configs by key (see `chains.config.example.json`). Entries
+ * for known keys are merged into the defaults, so overriding the RPC of a
+ * chain only takes `{ "sepolia": { "rpcUrls": [...] } }`, and `null` removes
+ * a chain altogether.
+ */
+function loadChains(json: string | undefined): Record<string, ChainConfig> {
+  if (!json) {
+    return DEFAULT_CHAINS;
+  }
+
+  let overrides: Record<string, Partial<ChainConfig> | null>;
+  try {
+    overrides = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`NEXT_PUBLIC_CHAINS is not valid JSON: ${error}`);
+  }
+
+  const chains = { ...DEFAULT_CHAINS };
+  for (const [key, override] of Object.entries(overrides)) {
+    if (override === null) {
+      delete chains[key];
+      continue;
+    }
+    const chain = { ...chains[key], ...override } as ChainConfig;
+    if (
+      !Number.isInteger(chain.chainId) ||
+      !Array.isArray(chain.rpcUrls) ||
+      chain.rpcUrls.length === 0 ||
+      !chain.explorerUrl
+    ) {
+      throw new Error(
+        `Chain "${key}" needs a chainId, rpcUrls and an explorerUrl`
+      );
+    }
+    chains[key] = {
+      ...chain,
+      name: chain.name ?? key,
+      nativeCurrency: chain.nativeCurrency ?? ETHER,
+      cowSupported: chain.cowSupported ?? false,
+      explorerUrl: withTrailingSlash(chain.explorerUrl),
+      ...(chain.orderExplorerUrl && {
+        orderExplorerUrl: withTrailingSlash(chain.orderExplorerUrl),
+      }),
+    };
+  }
+  return chains;
+}
+
+// Next.js only inlines `process.env.NEXT_PUBLIC_*` when accessed literally
+const chains = loadChains(process.env.NEXT_PUBLIC_CHAINS);
+
+export const getSupportedChains = () => Object.keys(chains);
+
+export const isSupportedChain = (chain: string) => chains[chain] !== undefined;
+
+export function getChain(chain: string): ChainConfig {
+  const config = chains[chain];
+  if (config === undefined) {
+    throw new Error(`Unsupported chain: ${chain}`);
+  }
+  return config;
+}
+
+export const getChainId = (chain: string) => getChain(chain).chainId;
+
+export const getNativeCurrency = (chain: string) =>
+  getChain(chain).nativeCurrency;
+
+// Key of the chain with the given ID, if it is configured
+export const findChain = (chainId: number) =>
+  Object.keys(chains).find((key) => chains[key]?.chainId === chainId);
+
+// Swaps need both the chain to enable CoW and the CoW SDK to support it
+export function isCowSupported(chainId: number): boolean {
+  const chain = findChain(chainId);
+  return (
+    chain !== undefined &&
+    chains[chain]!.cowSupported &&
+    Object.values(SupportedChainId).includes(chainId)
+  );
+}
+
+export function getCctp(chain: string): CctpConfig {
+  const { cctp } = getChain(chain);
+  if (cctp === undefined) {
+    throw new Error(`Bridging is not supported on ${chain}`);
+  }
+  return cctp;
+}
+
+export const transactionUrl = (chain: string, hash: string) =>
+  `${getChain(chain).explorerUrl}tx/${hash}`;
+
+export const addressUrl = (chain: string, address: string) =>
+  `${getChain(chain).explorerUrl}address/${address}`;
+
+export function orderUrl(chain: string, uid: string): string | undefined {
+  const { orderExplorerUrl } = getChain(chain);
+  return orderExplorerUrl && `${orderExplorerUrl}${uid}`;
+}
+
+const readProviders = new Map<number, ethers.providers.BaseProvider>();
+
+/**
+ * Read-only provider for calls made before a wallet is involved. With more
+ * than one RPC URL, requests fall back to the next URL when one stalls.
+ */
+export function getReadProvider(
+  chainId: number
+): ethers.providers.BaseProvider {
+  let provider = readProviders.get(chainId);
+  if (provider === undefined) {
+    const chain = findChain(chainId);
+    if (chain === undefined) {
+      throw new Error(`No RPC for chain: ${chainId}`);
+    }
+    const providers = chains[chain]!.rpcUrls.map(
+      (url) => new ethers.providers.StaticJsonRpcProvider(url, chainId)
+    );
+    provider =
+      providers.length === 1
+        ? providers[0]!
+        : new ethers.providers.FallbackProvider(
+            providers.map((rpc, index) => ({
+              provider: rpc,
+              priority: index,
+              stallTimeout: 2000,
+            })),
+            1
+          );
+    readProviders.set(chainId, provider);
+  }
+  return provider;
+}
+
+// Mainnet's read provider, or `undefined` when mainnet was removed
+export const getEnsProvider = (): ethers.providers.BaseProvider | undefined =>
+  findChain(ENS_CHAIN_ID) === undefined
+    ? undefined
+    : getReadProvider(ENS_CHAIN_ID);
@@ -0,0 +1,122 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { readStorage, walletStorageKey, writeStorage } from "./storage";
+
+export type Contact = {
+  // Nickname the contact is referred to by in intents, such as "mom"
+  alias: string;
+  address: string;
+  // Chains the contact may be paid on, or every chain when empty
+  chains: string[];
+};
+
+// How well the dashboard knows a recipient, to flag unfamiliar ones
+export type RecipientStatus = "contact" | "known" | "first_time";
+
+const contactsKey = (owner: string) => walletStorageKey("contacts", owner);
+const knownRecipientsKey = (owner: string) =>
+  walletStorageKey("known-recipients", owner);
+
+export const normalizeAlias = (alias: string) => alias.trim().toLowerCase();
+
+export const isValidAlias = (alias: string) =>
+  /^[a-z0-9][a-z0-9_-]*$/.test(normalizeAlias(alias));
+
+export function loadContacts(owner: string): Contact[] {
+  return readStorage<Contact[]>(contactsKey(owner), []);
+}
+
+export function saveContacts(owner: string, contacts: Contact[]) {
+  writeStorage(contactsKey(owner), contacts);
+}
+
+// Checks a new or edited contact, returning what's wrong with it if anything
+export function validateContact(
+  contact: Contact,
+  contacts: Contact[]
+): string | undefined {
+  const alias = normalizeAlias(contact.alias);
+  if (!isValidAlias(alias)) {
+    return `"${contact.alias}" must be letters, digits, "-" or "_"`;
+  }
+  if (!ethers.utils.isAddress(contact.address)) {
+    return `"${contact.address}" is not an address`;
+  }
+  if (contacts.some((existing) => existing.alias === alias)) {
+    return `"${alias}" is already in your address book`;
+  }
+  return undefined;
+}
+
+/**
+ * Looks up an alias in the address book. Throws when the alias exists but
+ * the contact isn't to be paid on `chain`, rather than falling back to ENS.
+ */
+export function findContact(
+  contacts: Contact[],
+  alias: string,
+  chain: string
+): Contact | undefined {
+  const contact = contacts.find(
+    (candidate) => candidate.alias === normalizeAlias(alias)
+  );
+  if (contact && contact.chains.length > 0 && !contact.chains.includes(chain)) {
+    throw new Error(
+      `"${
+        contact.alias
+      }" is only in your address book for ${contact.chains.join(", ")}`
+    );
+  }
+  return contact;
+}
+
+export function loadKnownRecipients(owner: string): string[] {
+  return readStorage<string[]>(knownRecipientsKey(owner), []);
+}
+
+// Remembers an address once something was successfully sent to it
+export function rememberRecipient(owner: string, address: string) {
+  const known = loadKnownRecipients(owner);
+  const normalized = address.toLowerCase();
+  if (!known.includes(normalized)) {
+    writeStorage(knownRecipientsKey(owner), [...known, normalized]);
+  }
+}
+
+export function recipientStatus(
+  owner: string,
+  address: string,
+  contacts: Contact[]
+): RecipientStatus {
+  const normalized = address.toLowerCase();
+  if (
+    contacts.some((contact) => contact.address.toLowerCase() === normalized)
+  ) {
+    return "contact";
+  }
+  return loadKnownRecipients(owner).includes(normalized)
+    ? "known"
+    : "first_time";
+}
@@ -0,0 +1,57 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { readStorage, walletStorageKey, writeStorage } from "./storage";
+
+export type ChatTurn = {
+  role: "user" | "assistant";
+  text: string;
+  // Quick replies offered with a clarifying question
+  options?: string[];
+};
+
+// Most recent prompts kept for recalling, per wallet
+const MAX_PROMPTS = 50;
+
+const promptsKey = (owner: string) => walletStorageKey("prompts", owner);
+
+// Earlier turns, as sent to the backend for context
+export const toContext = (thread: ChatTurn[]) =>
+  thread.map(({ role, text }) => ({ role, content: text }));
+
+// What the user asked for over the whole thread, e.g. for the history
+export const threadText = (thread: ChatTurn[]) =>
+  thread
+    .filter(({ role }) => role === "user")
+    .map(({ text }) => text)
+    .join(" / ");
+
+// Newest first
+export function loadPrompts(owner: string): string[] {
+  return readStorage<string[]>(promptsKey(owner), []);
+}
+
+export function rememberPrompt(owner: string, prompt: string) {
+  const prompts = loadPrompts(owner).filter((item) => item !== prompt);
+  writeStorage(promptsKey(owner), [prompt, ...prompts].slice(0, MAX_PROMPTS));
+}
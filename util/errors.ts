@@ -0,0 +1,244 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { OrderBookApiError } from "@cowprotocol/cow-sdk";
+
+/**
+ * A failure worded for the user. Errors from wallets, the CoW order book and
+ * the backend are mapped onto the subclasses below by `toAppError`.
+ */
+export class AppError extends Error {
+  // Whether the same action may succeed when tried again
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = "AppError";
+    this.retryable = retryable;
+  }
+}
+
+export class UserRejectedError extends AppError {
+  constructor() {
+    super("You rejected the request in your wallet.", true);
+    this.name = "UserRejectedError";
+  }
+}
+
+export class WrongNetworkError extends AppError {
+  chain: string;
+
+  constructor(chain: string) {
+    super(
+      `Your wallet could not switch to ${chain}. Switch networks in your wallet and try again.`,
+      true
+    );
+    this.name = "WrongNetworkError";
+    this.chain = chain;
+  }
+}
+
+export class InsufficientFundsError extends AppError {
+  constructor() {
+    super(
+      "You don't have enough funds for this, including the network fee.",
+      false
+    );
+    this.name = "InsufficientFundsError";
+  }
+}
+
+export class EnsResolutionError extends AppError {
+  ensName: string;
+
+  constructor(ensName: string) {
+    super(
+      `Could not find an address for ${ensName}. Check the name, or use an address or a contact instead.`,
+      true
+    );
+    this.name = "EnsResolutionError";
+    this.ensName = ensName;
+  }
+}
+
+// ENS names resolve on mainnet, which may be left out of the chains
+export class EnsUnavailableError extends AppError {
+  ensName: string;
+
+  constructor(ensName: string) {
+    super(
+      `Could not look up ${ensName}, as ENS names can't be resolved here. Use an address or a contact instead.`,
+      false
+    );
+    this.name = "EnsUnavailableError";
+    this.ensName = ensName;
+  }
+}
+
+export class UnsupportedTokenError extends AppError {
+  token: string;
+
+  constructor(token: string) {
+    super(
+      `${token} is not a token we can use here. Try its contract address instead.`,
+      false
+    );
+    this.name = "UnsupportedTokenError";
+    this.token = token;
+  }
+}
+
+// Quote and order errors of the CoW order book, by their `errorType`
+const quoteErrors: Record<string, [message: string, retryable: boolean]> = {
+  NoLiquidity: [
+    "There is not enough liquidity for this swap. Try a smaller amount or another token.",
+    true,
+  ],
+  SellAmountDoesNotCoverFee: [
+    "The amount is too small to cover the network fee. Try a larger amount.",
+    false,
+  ],
+  ZeroAmount: ["The amount must be more than zero.", false],
+  SameBuyAndSellToken: ["You can't swap a token for itself.", false],
+  QuoteNotFound: ["The quote has expired. Ask for the swap again.", false],
+  InvalidQuote: ["The quote has expired. Ask for the swap again.", false],
+  InsufficientValidTo: ["The order expires too soon.", false],
+  ExcessiveValidTo: ["The order stays open for too long.", false],
+  TooManyLimitOrders: [
+    "You have too many open limit orders. Cancel some and try again.",
+    true,
+  ],
+};
+
+export class QuoteError extends AppError {
+  errorType: string;
+
+  constructor(errorType: string, description?: string) {
+    const [message, retryable] = quoteErrors[errorType] ?? [
+      `The order book rejected the swap: ${description || errorType}`,
+      false,
+    ];
+    super(message, retryable);
+    this.name = "QuoteError";
+    this.errorType = errorType;
+  }
+}
+
+// Statuses of the `/api/intent` route with a message of their own
+const backendErrors: { [status: number]: string } = {
+  401: "Your session has expired. Log in again to continue.",
+  429: "You've sent too many requests. Wait a minute and try again.",
+};
+
+export class BackendError extends AppError {
+  // HTTP status, if the backend answered at all
+  status: number | undefined;
+
+  constructor(status?: number) {
+    super(
+      status === undefined || status >= 500
+        ? "The intent service is unavailable right now. Try again in a moment."
+        : backendErrors[status] ??
+            `The intent service could not handle the request (${status}).`,
+      status === undefined || status >= 500
+    );
+    this.name = "BackendError";
+    this.status = status;
+  }
+}
+
+// A payment request link that doesn't decode, or whose signature doesn't hold
+export class InvalidPaymentRequestError extends AppError {
+  constructor() {
+    super(
+      "This payment request link is invalid or has been changed. Ask for a new one.",
+      false
+    );
+    this.name = "InvalidPaymentRequestError";
+  }
+}
+
+// The relayer of gasless transfers failed to submit one
+export class RelayerError extends AppError {
+  constructor(detail: string) {
+    super(
+      `The relayer could not submit your transfer (${detail}). Try again in a moment.`,
+      true
+    );
+    this.name = "RelayerError";
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+// Error codes of ethers and EIP-1193 wallets, which may be nested
+function errorCodes(error: unknown): unknown[] {
+  const codes: unknown[] = [];
+  for (let current = error; isRecord(current); current = current["error"]) {
+    codes.push(current["code"]);
+  }
+  return codes;
+}
+
+/** Maps any thrown value onto an `AppError` with a message for the user. */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (error instanceof OrderBookApiError) {
+    const body: unknown = error.body;
+    const errorType =
+      isRecord(body) && typeof body["errorType"] === "string"
+        ? body["errorType"]
+        : undefined;
+    const description =
+      isRecord(body) && typeof body["description"] === "string"
+        ? body["description"]
+        : undefined;
+    if (errorType === "UnsupportedToken") {
+      return new UnsupportedTokenError(description ?? "This token");
+    } else if (errorType === "InsufficientBalance") {
+      return new InsufficientFundsError();
+    } else if (errorType !== undefined) {
+      return new QuoteError(errorType, description);
+    }
+  }
+
+  const codes = errorCodes(error);
+  const message = error instanceof Error ? error.message : String(error);
+  if (
+    codes.includes("ACTION_REJECTED") ||
+    codes.includes(4001) ||
+    /user (rejected|denied)/i.test(message)
+  ) {
+    return new UserRejectedError();
+  } else if (
+    codes.includes("INSUFFICIENT_FUNDS") ||
+    /insufficient funds/i.test(message)
+  ) {
+    return new InsufficientFundsError();
+  }
+  return new AppError(message || "Something went wrong", false);
+}
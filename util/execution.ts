@@ -0,0 +1,328 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { findChain, getChain } from "./chains";
+import { toAppError, UserRejectedError, WrongNetworkError } from "./errors";
+import { cowOrderBook, MemoryOrderBook, OrderBook } from "./orderBook";
+import { httpRelayer, localRelayer, Relayer } from "./relayer";
+
+/** What sending needs of a wallet. Privy's connected wallets already fit. */
+export type ExecutionWallet = {
+  address: string;
+  switchChain(chainId: number): Promise<void>;
+  getEthersProvider(): Promise<ethers.providers.JsonRpcProvider>;
+};
+
+/**
+ * Where transactions get signed and orders go. Swapping the adapter runs the
+ * same intents against a local node or as a dry run instead.
+ */
+export type ExecutionAdapter = {
+  name: string;
+  wallet: ExecutionWallet | undefined;
+  getOrderBook(chainId: number): OrderBook;
+  // Submits gasless transfers, where one is set up
+  relayer: Relayer | undefined;
+};
+
+// Switches the wallet over, unless the user rejects it in the wallet
+export async function switchWalletChain(
+  wallet: ExecutionWallet,
+  chainId: number
+): Promise<void> {
+  try {
+    await wallet.switchChain(chainId);
+  } catch (error) {
+    console.error(`Failed to switch to chain ${chainId}:`, error);
+    const appError = toAppError(error);
+    throw appError instanceof UserRejectedError
+      ? appError
+      : new WrongNetworkError(findChain(chainId) ?? `chain ${chainId}`);
+  }
+}
+
+// Anvil's and Hardhat's first unlocked account
+const DEFAULT_LOCAL_ACCOUNT = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+// One order book per chain, so orders outlive the adapter they were sent with
+function cachedOrderBooks(
+  create: (chainId: number) => OrderBook
+): (chainId: number) => OrderBook {
+  const orderBooks = new Map<number, OrderBook>();
+  return (chainId) => {
+    let orderBook = orderBooks.get(chainId);
+    if (orderBook === undefined) {
+      orderBook = create(chainId);
+      orderBooks.set(chainId, orderBook);
+    }
+    return orderBook;
+  };
+}
+
+// Signs with `account` rather than the node's first account by default
+class AccountProvider extends ethers.providers.StaticJsonRpcProvider {
+  private readonly account: string;
+
+  constructor(url: string | undefined, chainId: number, account: string) {
+    super(url, chainId);
+    this.account = account;
+  }
+
+  override getSigner(addressOrIndex: string | number = this.account) {
+    return super.getSigner(addressOrIndex);
+  }
+}
+
+const getMemoryOrderBook = cachedOrderBooks(
+  (chainId) => new MemoryOrderBook(chainId)
+);
+
+// Sends from the wallet at `address`, or the first one if it isn't connected
+export const privyAdapter = (
+  wallets: ConnectedWallet[],
+  address?: string,
+  relayer?: Relayer
+): ExecutionAdapter => ({
+  name: "Privy",
+  wallet:
+    wallets.find(
+      (wallet) => wallet.address.toLowerCase() === address?.toLowerCase()
+    ) ?? wallets[0],
+  getOrderBook: cowOrderBook,
+  relayer,
+});
+
+function localNodeProvider(chainId: number, address: string): AccountProvider {
+  const chain = findChain(chainId);
+  if (chain === undefined) {
+    throw new Error(`Unsupported chain: ${chainId}`);
+  }
+  const [url] = getChain(chain).rpcUrls;
+  return new AccountProvider(url, chainId, address);
+}
+
+/**
+ * Signs with an unlocked account of a local node, such as Anvil or Hardhat,
+ * found at the first RPC URL of each chain. Point the chains at the node
+ * with `NEXT_PUBLIC_CHAINS`. CoW can't see the node, so orders go to the
+ * in-memory order book, and unless `relayer` is given, the same account
+ * relays gasless transfers.
+ */
+export function localNodeAdapter(
+  address: string = DEFAULT_LOCAL_ACCOUNT,
+  relayer?: Relayer
+): ExecutionAdapter {
+  let provider: ethers.providers.JsonRpcProvider | undefined;
+  return {
+    name: "Local node",
+    wallet: {
+      address,
+      async switchChain(chainId) {
+        provider = localNodeProvider(chainId, address);
+      },
+      async getEthersProvider() {
+        if (provider === undefined) {
+          throw new Error("Switch the local wallet to a chain first");
+        }
+        return provider;
+      },
+    },
+    getOrderBook: getMemoryOrderBook,
+    relayer:
+      relayer ??
+      localRelayer(async (chainId) =>
+        localNodeProvider(chainId, address).getSigner()
+      ),
+  };
+}
+
+// Something the wallet was asked to sign during a dry run
+export type SigningRequest =
+  | {
+      type: "transaction";
+      chainId: number;
+      transaction: Record<string, string>;
+    }
+  | { type: "typed_data"; chainId: number; typedData: unknown }
+  | { type: "message"; chainId: number; message: string };
+
+// Stands in for a signature, which a dry run never asks the wallet for
+const DRY_RUN_SIGNATURE = `0x${"00".repeat(64)}1b`;
+
+/**
+ * Passes reads through to `provider` but records what would be signed or
+ * sent instead. Transactions seem to be mined at once, so that flows waiting
+ * on them, such as approvals, carry on.
+ */
+class DryRunProvider extends ethers.providers.JsonRpcProvider {
+  private readonly provider: ethers.providers.JsonRpcProvider;
+  private readonly account: string;
+  private readonly onRequest: (request: SigningRequest) => void;
+  private readonly sent = new Map<string, Record<string, string>>();
+
+  constructor(
+    provider: ethers.providers.JsonRpcProvider,
+    account: string,
+    onRequest: (request: SigningRequest) => void
+  ) {
+    super();
+    this.provider = provider;
+    this.account = account;
+    this.onRequest = onRequest;
+  }
+
+  override getSigner(addressOrIndex: string | number = this.account) {
+    return super.getSigner(addressOrIndex);
+  }
+
+  override async send(method: string, params: unknown[]): Promise<unknown> {
+    const { chainId } = await this.provider.getNetwork();
+    switch (method) {
+      case "eth_sendTransaction": {
+        const transaction = params[0] as Record<string, string>;
+        this.onRequest({ type: "transaction", chainId, transaction });
+        const hash = ethers.utils.keccak256(
+          ethers.utils.toUtf8Bytes(
+            JSON.stringify([transaction, this.sent.size])
+          )
+        );
+        this.sent.set(hash, transaction);
+        return hash;
+      }
+      case "eth_signTypedData_v4":
+        this.onRequest({
+          type: "typed_data",
+          chainId,
+          typedData: JSON.parse(params[1] as string),
+        });
+        return DRY_RUN_SIGNATURE;
+      case "personal_sign":
+        this.onRequest({
+          type: "message",
+          chainId,
+          message: params[0] as string,
+        });
+        return DRY_RUN_SIGNATURE;
+      case "eth_getTransactionByHash":
+      case "eth_getTransactionReceipt": {
+        const transaction = this.sent.get(params[0] as string);
+        if (transaction === undefined) {
+          break;
+        }
+        const blockNumber = ethers.utils.hexValue(
+          await this.provider.getBlockNumber()
+        );
+        const fields = {
+          hash: params[0],
+          transactionHash: params[0],
+          from: transaction["from"],
+          to: transaction["to"] ?? null,
+          blockHash: ethers.constants.HashZero,
+          blockNumber,
+          transactionIndex: "0x0",
+        };
+        return method === "eth_getTransactionByHash"
+          ? {
+              ...fields,
+              nonce: "0x0",
+              gas: transaction["gas"] ?? "0x0",
+              gasPrice: "0x0",
+              value: transaction["value"] ?? "0x0",
+              input: transaction["data"] ?? "0x",
+            }
+          : {
+              ...fields,
+              contractAddress: null,
+              gasUsed: "0x0",
+              cumulativeGasUsed: "0x0",
+              effectiveGasPrice: "0x0",
+              logsBloom: ethers.utils.hexZeroPad("0x", 256),
+              logs: [],
+              status: "0x1",
+            };
+      }
+    }
+    return await this.provider.send(method, params);
+  }
+}
+
+/**
+ * Runs `adapter` without broadcasting anything: whatever the wallet would be
+ * asked to sign goes to `onRequest`, and orders go to the in-memory order
+ * book.
+ */
+export function dryRunAdapter(
+  adapter: ExecutionAdapter,
+  onRequest: (request: SigningRequest) => void
+): ExecutionAdapter {
+  const { wallet } = adapter;
+  return {
+    name: `${adapter.name} (dry run)`,
+    wallet: wallet && {
+      address: wallet.address,
+      switchChain: (chainId) => wallet.switchChain(chainId),
+      getEthersProvider: async () =>
+        new DryRunProvider(
+          await wallet.getEthersProvider(),
+          wallet.address,
+          onRequest
+        ),
+    },
+    getOrderBook: getMemoryOrderBook,
+    // The authorization was already recorded when it was signed
+    relayer: adapter.relayer && {
+      name: `${adapter.relayer.name} (dry run)`,
+      relay: async (authorization) =>
+        ethers.utils.keccak256(
+          ethers.utils.toUtf8Bytes(JSON.stringify(authorization))
+        ),
+    },
+  };
+}
+
+/**
+ * The adapter picked by `NEXT_PUBLIC_EXECUTION`: `privy` (the default) for
+ * the selected wallet among those connected through Privy, or `local` for a
+ * local node's account `NEXT_PUBLIC_LOCAL_ACCOUNT`. Gasless transfers go to
+ * the relayer at `NEXT_PUBLIC_RELAYER_URL`.
+ */
+export function getExecutionAdapter(
+  wallets: ConnectedWallet[],
+  selectedAddress?: string
+): ExecutionAdapter {
+  // Next.js only inlines `process.env.NEXT_PUBLIC_*` when accessed literally
+  const execution = process.env.NEXT_PUBLIC_EXECUTION || "privy";
+  const relayerUrl = process.env.NEXT_PUBLIC_RELAYER_URL;
+  const relayer = relayerUrl ? httpRelayer(relayerUrl) : undefined;
+  if (execution === "local") {
+    return localNodeAdapter(
+      process.env.NEXT_PUBLIC_LOCAL_ACCOUNT || undefined,
+      relayer
+    );
+  } else if (execution !== "privy") {
+    throw new Error(`Unknown NEXT_PUBLIC_EXECUTION: ${execution}`);
+  }
+  return privyAdapter(wallets, selectedAddress, relayer);
+}
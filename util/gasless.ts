@@ -0,0 +1,227 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { EIP3009_ABI } from "./abi";
+import { getChainId, getReadProvider } from "./chains";
+import { ExecutionAdapter, switchWalletChain } from "./execution";
+import { PreflightResult } from "./preflight";
+import { TransferAuthorization } from "./relayer";
+import { Token } from "./tokens";
+
+// How long a signed authorization stays valid for the relayer to submit it
+const AUTHORIZATION_VALIDITY = 60 * 60;
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+const CANCEL_AUTHORIZATION_TYPES = {
+  CancelAuthorization: [
+    { name: "authorizer", type: "address" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+/**
+ * Returns the EIP-712 domain of `token` if it implements EIP-3009 transfers
+ * with authorization, as Circle's USDC and EURC do, or null otherwise.
+ */
+export async function getAuthorizationDomain(
+  token: string,
+  chainId: number,
+  provider: ethers.providers.Provider
+): Promise<ethers.TypedDataDomain | null> {
+  const contract = new ethers.Contract(token, EIP3009_ABI, provider);
+  let name: string;
+  let version: string;
+  let domainSeparator: string;
+  try {
+    [name, version, domainSeparator] = await Promise.all([
+      contract.name(),
+      contract.version(),
+      contract.DOMAIN_SEPARATOR(),
+      contract.authorizationState(
+        ethers.constants.AddressZero,
+        ethers.constants.HashZero
+      ),
+    ]);
+  } catch {
+    return null;
+  }
+
+  const domain = { name, version, chainId, verifyingContract: token };
+  // Only trust the domain if it matches what the token itself uses
+  return ethers.utils._TypedDataEncoder.hashDomain(domain) === domainSeparator
+    ? domain
+    : null;
+}
+
+/**
+ * Whether a transfer should be relayed instead: the native balance doesn't
+ * cover the gas, a relayer is set up and the token takes authorizations.
+ */
+export async function shouldSendGasless(
+  adapter: ExecutionAdapter,
+  chain: string,
+  token: Token,
+  preflight: PreflightResult
+): Promise<boolean> {
+  if (
+    adapter.relayer === undefined ||
+    !preflight.issues.some(({ reason }) => reason === "insufficient_gas")
+  ) {
+    return false;
+  }
+  const chainId = getChainId(chain);
+  const domain = await getAuthorizationDomain(
+    token.address,
+    chainId,
+    getReadProvider(chainId)
+  );
+  return domain !== null;
+}
+
+// A relayed transfer's preflight, leaving out the gas the relayer pays
+export const relayedPreflight = ({
+  issues,
+}: PreflightResult): PreflightResult => ({
+  issues: issues.filter(({ reason }) => reason !== "insufficient_gas"),
+  estimatedFee: undefined,
+});
+
+/**
+ * Has the wallet sign an EIP-3009 authorization for the transfer, which can
+ * be submitted between `validAfter` and `validBefore` (in seconds), by
+ * default from now for an hour.
+ */
+export async function signTransferAuthorization(
+  adapter: ExecutionAdapter,
+  receiverAddress: string,
+  amount: string,
+  chain: string,
+  token: Token,
+  validAfter: number = 0,
+  validBefore: number = Math.floor(Date.now() / 1000) + AUTHORIZATION_VALIDITY
+): Promise<TransferAuthorization> {
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
+  }
+
+  const chainId = getChainId(chain);
+  // Wallets only sign typed data for the chain they are on
+  await switchWalletChain(wallet, chainId);
+  const provider = await wallet.getEthersProvider();
+  const domain = await getAuthorizationDomain(token.address, chainId, provider);
+  if (domain === null) {
+    throw new Error(`${token.symbol} does not support gasless transfers`);
+  }
+
+  const message = {
+    from: wallet.address,
+    to: receiverAddress,
+    value: ethers.utils.parseUnits(amount, token.decimals).toString(),
+    validAfter,
+    validBefore,
+    nonce: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+  };
+  console.log("Signing transfer authorization...");
+  const signature = await provider
+    .getSigner()
+    ._signTypedData(domain, TRANSFER_WITH_AUTHORIZATION_TYPES, message);
+
+  return { ...message, chainId, token: token.address, signature };
+}
+
+/**
+ * Cancels a signed authorization on chain, so that it can no longer be
+ * submitted. The wallet signs the cancellation and sends it, paying the gas.
+ * Returns undefined if the authorization was already used or cancelled.
+ */
+export async function cancelTransferAuthorization(
+  adapter: ExecutionAdapter,
+  authorization: TransferAuthorization
+): Promise<ethers.providers.TransactionResponse | undefined> {
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
+  }
+
+  const { chainId, token, from, nonce } = authorization;
+  await switchWalletChain(wallet, chainId);
+  const provider = await wallet.getEthersProvider();
+  const domain = await getAuthorizationDomain(token, chainId, provider);
+  if (domain === null) {
+    throw new Error("The token no longer supports gasless transfers");
+  }
+  const signer = provider.getSigner();
+  const contract = new ethers.Contract(token, EIP3009_ABI, signer);
+  if (await contract.authorizationState(from, nonce)) {
+    return undefined;
+  }
+
+  console.log("Signing authorization cancellation...");
+  const { v, r, s } = ethers.utils.splitSignature(
+    await signer._signTypedData(domain, CANCEL_AUTHORIZATION_TYPES, {
+      authorizer: from,
+      nonce,
+    })
+  );
+  console.log("Cancelling authorization...");
+  return await contract.cancelAuthorization(from, nonce, v, r, s);
+}
+
+/**
+ * Signs an authorization for the transfer and hands it to the adapter's
+ * relayer, which pays the gas. Returns the hash of the relayer's transaction.
+ */
+export async function sendGaslessTransfer(
+  adapter: ExecutionAdapter,
+  receiverAddress: string,
+  amount: string,
+  chain: string,
+  token: Token
+): Promise<string> {
+  const { relayer } = adapter;
+  if (!relayer) {
+    throw new Error("No relayer is set up for gasless transfers");
+  }
+
+  const authorization = await signTransferAuthorization(
+    adapter,
+    receiverAddress,
+    amount,
+    chain,
+    token
+  );
+  console.log(`Relaying transfer through ${relayer.name}...`);
+  return await relayer.relay(authorization);
+}
@@ -0,0 +1,170 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { OrderStatus } from "@cowprotocol/cow-sdk";
+import { Intent } from "./intent";
+import { readStorage, walletStorageKey, writeStorage } from "./storage";
+import {
+  TrackerOptions,
+  trackTransaction,
+  TransactionDroppedError,
+  TransactionReplacedError,
+  waitForOrderStatus,
+} from "./tracker";
+import { isSupportedChain, orderUrl, transactionUrl } from "./chains";
+import { getBurnMessage } from "./cctp";
+
+export type HistoryStatus =
+  | "pending"
+  // A bridge whose USDC was burnt, but not minted on the destination chain
+  | "burned"
+  | "confirmed"
+  | "failed"
+  | "fulfilled"
+  | "expired"
+  | "cancelled";
+
+export type HistoryEntry = {
+  // Transaction hash, or CoW order UID for swaps
+  id: string;
+  kind: "transaction" | "order";
+  text: string;
+  intent: Intent;
+  chain: string;
+  status: HistoryStatus;
+  createdAt: number;
+  // The CCTP message of a burned bridge, to resume its mint from
+  burnMessage?: string;
+  // Block the transaction was sent at, to look for replacements from
+  fromBlock?: number;
+};
+
+const historyKey = (address: string) => walletStorageKey("history", address);
+
+export function loadHistory(address: string): HistoryEntry[] {
+  return readStorage<HistoryEntry[]>(historyKey(address), []);
+}
+
+export function saveHistory(address: string, entries: HistoryEntry[]) {
+  writeStorage(historyKey(address), entries);
+}
+
+export function orderStatusToHistoryStatus(status: OrderStatus): HistoryStatus {
+  switch (status) {
+    case OrderStatus.FULFILLED:
+      return "fulfilled";
+    case OrderStatus.EXPIRED:
+      return "expired";
+    case OrderStatus.CANCELLED:
+      return "cancelled";
+    default:
+      return "pending";
+  }
+}
+
+// Entries from chains that are no longer configured have no link
+export function historyEntryUrl(entry: HistoryEntry): string | undefined {
+  if (!isSupportedChain(entry.chain)) {
+    return undefined;
+  }
+  return entry.kind === "order"
+    ? orderUrl(entry.chain, entry.id)
+    : transactionUrl(entry.chain, entry.id);
+}
+
+/**
+ * Waits for a pending entry, e.g. one left over from before a reload, to
+ * settle, and returns the changes to make to it. A bridge settles as burned
+ * once its burn is confirmed, along with the message to mint from.
+ */
+export async function pollHistoryEntry(
+  entry: HistoryEntry,
+  options: TrackerOptions = {}
+): Promise<Pick<HistoryEntry, "status" | "burnMessage">> {
+  if (entry.kind === "order") {
+    return {
+      status: orderStatusToHistoryStatus(
+        await waitForOrderStatus(entry.id, entry.chain, options)
+      ),
+    };
+  }
+
+  try {
+    const receipt = await trackTransaction(entry.id, entry.chain, {
+      ...options,
+      fromBlock: entry.fromBlock ?? options.fromBlock,
+    });
+    if (receipt.status !== 1) {
+      return { status: "failed" };
+    }
+    return entry.intent.transaction_type === "bridge"
+      ? {
+          status: "burned",
+          burnMessage: getBurnMessage(entry.chain, receipt),
+        }
+      : { status: "confirmed" };
+  } catch (error) {
+    if (
+      error instanceof TransactionDroppedError ||
+      error instanceof TransactionReplacedError
+    ) {
+      return { status: "failed" };
+    }
+    throw error;
+  }
+}
+
+// Cells starting like a formula are prefixed with `'`, so that spreadsheets
+// opening the export show the text instead of evaluating it
+const csvEscape = (cell: string) => {
+  const value = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const header = [
+    "date",
+    "text",
+    "transaction_type",
+    "chain",
+    "id",
+    "status",
+    "intent",
+  ];
+  const rows = entries.map((entry) => [
+    new Date(entry.createdAt).toISOString(),
+    entry.text,
+    entry.intent.transaction_type,
+    entry.chain,
+    entry.id,
+    entry.status,
+    JSON.stringify(entry.intent),
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvEscape).join(","))
+    .join("\n");
+}
+
+export function historyToJson(entries: HistoryEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
@@ -0,0 +1,722 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { getChain, getChainId, isSupportedChain } from "./chains";
+import { findToken } from "./tokens";
+import { isValidAlias } from "./contacts";
+
+/**
+ * Version of the `/answer/` payload this frontend understands. Bump it
+ * together with the backend whenever the shape of an intent changes.
+ */
+export const INTENT_SCHEMA_VERSION = 1;
+
+export type TransferIntent = {
+  transaction_type: "transfer";
+  recipientAddress: string;
+  chain: string;
+  amount: string;
+  token: string;
+};
+
+export type SwapIntent = {
+  transaction_type: "swap";
+  chain: string;
+  // Amount of `fromAsset` to sell, or of `toAsset` to buy for buy orders
+  amount: string;
+  fromAsset: string;
+  toAsset: string;
+  // A sell order when missing, unless the text says otherwise
+  side?: "sell" | "buy";
+  // Falls back to the user's default slippage when missing
+  slippageBps?: number;
+  // Turns the swap into a limit order, priced in `toAsset` per `fromAsset`,
+  // or the other way around if `limitPriceOf` is "toAsset"
+  limitPrice?: string;
+  // The asset the limit price is the price of, "fromAsset" by default
+  limitPriceOf?: "fromAsset" | "toAsset";
+  // Seconds the order stays valid for
+  validFor?: number;
+};
+
+export type NativeTransferIntent = {
+  transaction_type: "native_transfer";
+  recipientAddress: string;
+  chain: string;
+  amount: string;
+};
+
+export type WrapIntent = {
+  transaction_type: "wrap" | "unwrap";
+  chain: string;
+  amount: string;
+};
+
+// Moves USDC from `chain` to `destinationChain` with CCTP
+export type BridgeIntent = {
+  transaction_type: "bridge";
+  recipientAddress: string;
+  chain: string;
+  destinationChain: string;
+  amount: string;
+};
+
+export type Intent =
+  | TransferIntent
+  | SwapIntent
+  | NativeTransferIntent
+  | WrapIntent
+  | BridgeIntent;
+
+export type TransactionType = Intent["transaction_type"];
+
+// Asks someone else to pay the user, rather than sending anything
+export type PaymentRequestIntent = {
+  chain: string;
+  amount: string;
+  token: string;
+  memo?: string;
+};
+
+// Only payments can be scheduled, as their outcome doesn't depend on prices
+export type ScheduledIntent = TransferIntent | NativeTransferIntent;
+
+export type Recurrence = "day" | "week" | "month";
+
+// When a scheduled intent first runs, and how often it repeats after that
+export type ScheduleSpec = {
+  // Milliseconds since the epoch
+  at: number;
+  every?: Recurrence;
+};
+
+/**
+ * One step of a multi-step intent. A step can take its amount from the output
+ * of an earlier step, such as the amount bought by a swap, in which case the
+ * intent's own amount is only known once that step has run.
+ */
+export type IntentStep = {
+  intent: Intent;
+  // Index of the earlier step whose output is this step's amount
+  amountFrom?: number;
+};
+
+// Only swaps, wraps and bridges leave the wallet with something to spend
+// afterwards
+export const hasOutput = (intent: Intent) =>
+  intent.transaction_type === "swap" ||
+  intent.transaction_type === "wrap" ||
+  intent.transaction_type === "unwrap" ||
+  intent.transaction_type === "bridge";
+
+// A follow-up question, when the text leaves out or muddles something
+export type Clarification = {
+  question: string;
+  // Intent fields the backend could not fill in, such as "chain"
+  missingFields: string[];
+  // Answers to pick from, such as ["USDC", "EURC"]
+  options: string[];
+};
+
+export type IntentResponse =
+  | { type: "intent"; steps: IntentStep[] }
+  | { type: "clarification"; clarification: Clarification }
+  | { type: "payment_request"; request: PaymentRequestIntent }
+  | { type: "scheduled"; intent: ScheduledIntent; schedule: ScheduleSpec };
+
+export const MAX_SLIPPAGE_BPS = 5000;
+
+export const MAX_MEMO_LENGTH = 140;
+
+// CoW orders can be valid for up to a year
+export const MAX_VALIDITY = 365 * 24 * 60 * 60;
+
+export class IntentValidationError extends Error {
+  issues: string[];
+  // Whether the issues are about fields the user can fill in or correct, as
+  // opposed to a reply that doesn't follow the schema
+  clarifiable: boolean;
+
+  constructor(issues: string[], clarifiable: boolean = false) {
+    super(`Invalid intent: ${issues.join("; ")}`);
+    this.name = "IntentValidationError";
+    this.issues = issues;
+    this.clarifiable = clarifiable;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function checkAmount(
+  value: unknown,
+  issues: string[],
+  label: string = "Amount"
+): string {
+  const amount =
+    typeof value === "number" && Number.isFinite(value)
+      ? value.toString()
+      : typeof value === "string"
+      ? value.trim()
+      : "";
+  if (!/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0) {
+    issues.push(`${label} "${String(value)}" is not a positive number`);
+  }
+  return amount;
+}
+
+function checkChain(value: unknown, issues: string[]): string {
+  if (typeof value !== "string" || !isSupportedChain(value)) {
+    issues.push(`Chain "${String(value)}" is not supported`);
+    return "";
+  }
+  return value;
+}
+
+// Tokens are given either by address or by a symbol from the token registry
+function checkToken(
+  label: string,
+  chain: string,
+  value: unknown,
+  issues: string[]
+): string {
+  if (typeof value === "string" && ethers.utils.isAddress(value)) {
+    return value;
+  }
+  if (typeof value !== "string" || value.trim() === "") {
+    issues.push(`${label} is missing`);
+    return "";
+  }
+  if (chain && !findToken(getChainId(chain), value)) {
+    issues.push(`${label} "${value}" is not a known token on ${chain}`);
+  }
+  return value;
+}
+
+function checkSide(
+  value: unknown,
+  issues: string[]
+): "sell" | "buy" | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (value !== "sell" && value !== "buy") {
+    issues.push(`Order side "${String(value)}" is neither "sell" nor "buy"`);
+    return undefined;
+  }
+  return value;
+}
+
+function checkPricedAsset(
+  value: unknown,
+  issues: string[]
+): "fromAsset" | "toAsset" {
+  if (value === undefined || value === "") {
+    return "fromAsset";
+  }
+  if (value !== "fromAsset" && value !== "toAsset") {
+    issues.push(
+      `Limit price of "${String(value)}" is neither "fromAsset" nor "toAsset"`
+    );
+    return "fromAsset";
+  }
+  return value;
+}
+
+function checkSlippage(value: unknown, issues: string[]): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const bps = Number(value);
+  if (!Number.isInteger(bps) || bps < 0 || bps > MAX_SLIPPAGE_BPS) {
+    issues.push(
+      `Slippage "${String(value)}" must be a whole number of basis points ` +
+        `between 0 and ${MAX_SLIPPAGE_BPS}`
+    );
+    return undefined;
+  }
+  return bps;
+}
+
+function checkValidity(value: unknown, issues: string[]): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds <= 0 || seconds > MAX_VALIDITY) {
+    issues.push(
+      `Validity "${String(value)}" must be a whole number of seconds ` +
+        `up to ${MAX_VALIDITY}`
+    );
+    return undefined;
+  }
+  return seconds;
+}
+
+function checkRecipient(value: unknown, issues: string[]): string {
+  if (
+    typeof value !== "string" ||
+    !(
+      ethers.utils.isAddress(value) ||
+      /^[^\s.]+(\.[^\s.]+)*\.eth$/.test(value) ||
+      isValidAlias(value)
+    )
+  ) {
+    issues.push(
+      `Recipient "${String(
+        value
+      )}" is neither an address, an ENS name nor a contact`
+    );
+    return "";
+  }
+  return value;
+}
+
+/**
+ * Validates the fields of a single intent, collecting every problem so they
+ * can all be shown to the user at once.
+ */
+export function validateIntent(
+  transactionType: unknown,
+  fields: unknown,
+  { derivedAmount = false }: { derivedAmount?: boolean } = {}
+): Intent {
+  if (!isRecord(fields)) {
+    throw new IntentValidationError(["Intent details are missing"]);
+  }
+
+  const issues: string[] = [];
+  // Derived amounts are filled in from an earlier step, so aren't checked
+  const amount = derivedAmount ? "" : checkAmount(fields["amount"], issues);
+  let intent: Intent;
+  if (transactionType === "transfer") {
+    const chain = checkChain(fields["chain"], issues);
+    intent = {
+      transaction_type: "transfer",
+      recipientAddress: checkRecipient(fields["recipientAddress"], issues),
+      chain,
+      amount,
+      token: checkToken("Token", chain, fields["token"], issues),
+    };
+  } else if (transactionType === "swap") {
+    const chain = checkChain(fields["chain"], issues);
+    intent = {
+      transaction_type: "swap",
+      chain,
+      amount,
+      fromAsset: checkToken("Sell token", chain, fields["fromAsset"], issues),
+      toAsset: checkToken("Buy token", chain, fields["toAsset"], issues),
+    };
+    const side = checkSide(fields["side"], issues);
+    if (side !== undefined) {
+      intent.side = side;
+    }
+    const slippageBps = checkSlippage(fields["slippageBps"], issues);
+    if (slippageBps !== undefined) {
+      intent.slippageBps = slippageBps;
+    }
+    if (fields["limitPrice"] !== undefined && fields["limitPrice"] !== "") {
+      intent.limitPrice = checkAmount(
+        fields["limitPrice"],
+        issues,
+        "Limit price"
+      );
+      if (checkPricedAsset(fields["limitPriceOf"], issues) === "toAsset") {
+        intent.limitPriceOf = "toAsset";
+      }
+    }
+    const validFor = checkValidity(fields["validFor"], issues);
+    if (validFor !== undefined) {
+      intent.validFor = validFor;
+    }
+  } else if (transactionType === "native_transfer") {
+    intent = {
+      transaction_type: "native_transfer",
+      recipientAddress: checkRecipient(fields["recipientAddress"], issues),
+      chain: checkChain(fields["chain"], issues),
+      amount,
+    };
+  } else if (transactionType === "wrap" || transactionType === "unwrap") {
+    const chain = checkChain(fields["chain"], issues);
+    if (chain && !findToken(getChainId(chain), "WETH")) {
+      issues.push(`WETH is not available on ${chain}`);
+    }
+    intent = {
+      transaction_type: transactionType,
+      chain,
+      amount,
+    };
+  } else if (transactionType === "bridge") {
+    const chain = checkChain(fields["chain"], issues);
+    const destinationChain = checkChain(fields["destinationChain"], issues);
+    for (const bridged of [chain, destinationChain]) {
+      if (bridged && getChain(bridged).cctp === undefined) {
+        issues.push(`USDC cannot be bridged from or to ${bridged}`);
+      }
+    }
+    if (chain && chain === destinationChain) {
+      issues.push("Bridging needs two different chains");
+    }
+    intent = {
+      transaction_type: "bridge",
+      recipientAddress: checkRecipient(fields["recipientAddress"], issues),
+      chain,
+      destinationChain,
+      amount,
+    };
+  } else {
+    throw new IntentValidationError([
+      `Unsupported transaction type "${String(transactionType)}"`,
+    ]);
+  }
+
+  if (issues.length > 0) {
+    throw new IntentValidationError(issues, true);
+  }
+  return intent;
+}
+
+export function validatePaymentRequest(fields: unknown): PaymentRequestIntent {
+  if (!isRecord(fields)) {
+    throw new IntentValidationError(["Payment request details are missing"]);
+  }
+
+  const issues: string[] = [];
+  const chain = checkChain(fields["chain"], issues);
+  const request: PaymentRequestIntent = {
+    chain,
+    amount: checkAmount(fields["amount"], issues),
+    token: checkToken("Token", chain, fields["token"], issues),
+  };
+  const memo = fields["memo"];
+  if (typeof memo === "string" && memo.trim() !== "") {
+    if (memo.length > MAX_MEMO_LENGTH) {
+      issues.push(`Memo is longer than ${MAX_MEMO_LENGTH} characters`);
+    }
+    request.memo = memo.trim();
+  }
+
+  if (issues.length > 0) {
+    throw new IntentValidationError(issues, true);
+  }
+  return request;
+}
+
+const RECURRENCES: Recurrence[] = ["day", "week", "month"];
+
+/**
+ * Validates when a scheduled intent runs. The backend turns phrases such as
+ * "tomorrow" or "on the 1st of every month" into the first run's time, as an
+ * ISO 8601 date, and how often it repeats.
+ */
+export function validateSchedule(
+  fields: unknown,
+  now: number = Date.now()
+): ScheduleSpec {
+  if (!isRecord(fields)) {
+    throw new IntentValidationError(["Schedule details are missing"]);
+  }
+
+  const issues: string[] = [];
+  const rawAt = fields["at"];
+  const at = typeof rawAt === "string" ? Date.parse(rawAt) : NaN;
+  if (Number.isNaN(at)) {
+    issues.push(`Scheduled time "${String(rawAt)}" is not a date`);
+  } else if (at <= now) {
+    issues.push(`Scheduled time "${String(rawAt)}" is in the past`);
+  }
+  const every = fields["every"];
+  if (
+    every !== undefined &&
+    every !== null &&
+    !RECURRENCES.includes(every as Recurrence)
+  ) {
+    issues.push(
+      `Repeating every "${String(
+        every
+      )}" is not supported, only ${RECURRENCES.join(", ")}`
+    );
+  }
+
+  if (issues.length > 0) {
+    throw new IntentValidationError(issues, true);
+  }
+  return typeof every === "string"
+    ? { at, every: every as Recurrence }
+    : { at };
+}
+
+function checkAmountFrom(
+  value: unknown,
+  index: number,
+  steps: IntentStep[],
+  issues: string[]
+): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const source =
+    typeof value === "number" && Number.isInteger(value) && value < index
+      ? steps[value]
+      : undefined;
+  if (!source) {
+    issues.push(
+      `Takes its amount from step ${String(
+        value
+      )}, which is not an earlier step`
+    );
+    return undefined;
+  }
+  if (!hasOutput(source.intent)) {
+    issues.push(
+      `Takes its amount from step ${(value as number) + 1}, which has no output`
+    );
+    return undefined;
+  }
+  return value as number;
+}
+
+// Asked about missing fields the backend didn't word a question for
+const fieldQuestions: Record<string, string> = {
+  chain: "Which chain?",
+  destinationChain: "Which chain should it go to?",
+  amount: "How much?",
+  token: "Which token?",
+  fromAsset: "Which token do you want to sell?",
+  toAsset: "Which token do you want to buy?",
+  recipientAddress: "Who should receive it?",
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+function parseClarification(value: unknown): Clarification {
+  const fields = isRecord(value) ? value : {};
+  const missingFields = isStringArray(fields["missing_fields"])
+    ? fields["missing_fields"]
+    : [];
+  const question =
+    typeof fields["question"] === "string" && fields["question"].trim() !== ""
+      ? fields["question"]
+      : missingFields
+          .map((field) => fieldQuestions[field] ?? `What is the ${field}?`)
+          .join(" ") || "Could you tell me more about what you want to do?";
+  return {
+    question,
+    missingFields,
+    options: isStringArray(fields["options"]) ? fields["options"] : [],
+  };
+}
+
+/**
+ * Validates the whole `/answer/` payload, including its schema version. The
+ * backend answers with either a single intent or a list of `steps`, which
+ * both come out as a list of steps, or with `clarification_needed` when it
+ * needs to ask the user something first. A `request_payment` intent stands
+ * on its own, as nothing is sent. An intent with a `schedule` is kept to run
+ * later, or repeatedly, instead of right away.
+ */
+export function parseIntentResponse(payload: unknown): IntentResponse {
+  if (!isRecord(payload)) {
+    throw new IntentValidationError(["The backend returned an empty response"]);
+  }
+
+  const version = payload["schema_version"];
+  if (version !== INTENT_SCHEMA_VERSION) {
+    throw new IntentValidationError([
+      version === undefined
+        ? "The backend response has no schema version"
+        : `The backend schema version ${String(
+            version
+          )} is not supported (expected ${INTENT_SCHEMA_VERSION})`,
+    ]);
+  }
+
+  if (payload["clarification_needed"] !== undefined) {
+    return {
+      type: "clarification",
+      clarification: parseClarification(payload["clarification_needed"]),
+    };
+  }
+
+  const rawSteps = payload["steps"];
+  if (
+    rawSteps === undefined &&
+    payload["transaction_type"] === "request_payment"
+  ) {
+    return {
+      type: "payment_request",
+      request: validatePaymentRequest(payload["response"]),
+    };
+  }
+  if (rawSteps === undefined && payload["schedule"] !== undefined) {
+    const intent = validateIntent(
+      payload["transaction_type"],
+      payload["response"]
+    );
+    if (
+      intent.transaction_type !== "transfer" &&
+      intent.transaction_type !== "native_transfer"
+    ) {
+      throw new IntentValidationError(["Only transfers can be scheduled"]);
+    }
+    return {
+      type: "scheduled",
+      intent,
+      schedule: validateSchedule(payload["schedule"]),
+    };
+  }
+  if (rawSteps === undefined) {
+    const intent = validateIntent(
+      payload["transaction_type"],
+      payload["response"]
+    );
+    return { type: "intent", steps: [{ intent }] };
+  }
+  if (!Array.isArray(rawSteps) || rawSteps.length === 0) {
+    throw new IntentValidationError(["The backend returned no steps"]);
+  }
+
+  // Steps are 0-indexed in the payload, but numbered from 1 for the user
+  const steps: IntentStep[] = [];
+  const issues: string[] = [];
+  // Only field issues in every step can be asked about
+  let clarifiable = true;
+  rawSteps.forEach((rawStep: unknown, index) => {
+    if (!isRecord(rawStep)) {
+      issues.push(`Step ${index + 1} is missing`);
+      clarifiable = false;
+      return;
+    }
+    const stepIssues: string[] = [];
+    const amountFrom = checkAmountFrom(
+      rawStep["amount_from_step"],
+      index,
+      steps,
+      stepIssues
+    );
+    if (stepIssues.length > 0) {
+      clarifiable = false;
+    }
+    try {
+      const intent = validateIntent(
+        rawStep["transaction_type"],
+        rawStep["response"],
+        { derivedAmount: amountFrom !== undefined }
+      );
+      steps.push(
+        amountFrom === undefined ? { intent } : { intent, amountFrom }
+      );
+    } catch (error) {
+      if (!(error instanceof IntentValidationError)) {
+        throw error;
+      }
+      stepIssues.push(...error.issues);
+      if (!error.clarifiable) {
+        clarifiable = false;
+      }
+    }
+    issues.push(...stepIssues.map((issue) => `Step ${index + 1}: ${issue}`));
+  });
+
+  if (issues.length > 0) {
+    throw new IntentValidationError(issues, clarifiable);
+  }
+  return { type: "intent", steps };
+}
+
+const validityUnits: Record<string, number> = {
+  minute: 60,
+  min: 60,
+  hour: 60 * 60,
+  hr: 60 * 60,
+  day: 24 * 60 * 60,
+  week: 7 * 24 * 60 * 60,
+};
+
+/**
+ * Fills in swap options the backend left out from phrases of the original
+ * text, such as "max 0.5% slippage", "buy exactly 100 EURC", "if price hits
+ * 4000" or "valid for 2 hours".
+ */
+export function applySwapPhrases(intent: SwapIntent, text: string): SwapIntent {
+  const options: Partial<SwapIntent> = {};
+
+  const slippage =
+    /(\d+(?:\.\d+)?)\s*%\s*(?:max(?:imum)?\s+)?slippage/i.exec(text) ??
+    /slippage\s*(?:of|:|at most|up to)?\s*(\d+(?:\.\d+)?)\s*%/i.exec(text);
+  if (intent.slippageBps === undefined && slippage?.[1] !== undefined) {
+    const bps = Math.round(Number(slippage[1]) * 100);
+    if (bps <= MAX_SLIPPAGE_BPS) {
+      options.slippageBps = bps;
+    }
+  }
+
+  if (intent.side === undefined && /\bbuy\s+exactly\b/i.test(text)) {
+    options.side = "buy";
+  }
+
+  const limitPrice =
+    /(?:if|when|once)\s+(?:the\s+)?price\s+(?:hits|reaches|is|gets\s+to)\s+\$?(\d+(?:\.\d+)?)/i.exec(
+      text
+    ) ??
+    /\bat\s+(?:a\s+)?(?:limit\s+)?price\s+(?:of\s+)?\$?(\d+(?:\.\d+)?)/i.exec(
+      text
+    );
+  const price = limitPrice?.[1];
+  if (price !== undefined) {
+    if (intent.limitPrice === undefined) {
+      options.limitPrice = price;
+    }
+    // A price as written is of what is bought in buy wording, such as "buy
+    // WETH with USDC if the price hits 4000", i.e. in USDC per WETH
+    if (
+      intent.limitPriceOf === undefined &&
+      Number(intent.limitPrice ?? price) === Number(price) &&
+      /\bbuy\b/i.test(text) &&
+      !/\bsell\b/i.test(text)
+    ) {
+      options.limitPriceOf = "toAsset";
+    }
+  }
+
+  const validity =
+    /valid\s+for\s+(\d+(?:\.\d+)?)\s*(minute|min|hour|hr|day|week)s?\b/i.exec(
+      text
+    );
+  if (
+    intent.validFor === undefined &&
+    validity?.[1] !== undefined &&
+    validity[2] !== undefined
+  ) {
+    const seconds = Math.round(
+      Number(validity[1]) * validityUnits[validity[2].toLowerCase()]!
+    );
+    if (seconds > 0 && seconds <= MAX_VALIDITY) {
+      options.validFor = seconds;
+    }
+  }
+
+  return { ...intent, ...options };
+}
@@ -0,0 +1,167 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+/**
+ * Server-side helpers of the `/api/intent` route, which forwards intent
+ * requests from signed-in users to the backend's `/answer/` endpoint.
+ */
+
+// Read at runtime on the server, so the backend is never exposed to browsers
+export function getBackendUrl(): string | undefined {
+  const url =
+    process.env.BACKEND_URL ||
+    (process.env.NODE_ENV === "production"
+      ? undefined
+      : "http://localhost:8000/");
+  return url && (url.endsWith("/") ? url : `${url}/`);
+}
+
+const MAX_QUESTION_LENGTH = 1000;
+const MAX_HISTORY_TURNS = 20;
+const MAX_BALANCES = 100;
+
+export type IntentRequest = {
+  question: string;
+  schema_version: unknown;
+  history: { role: "user" | "assistant"; content: string }[];
+  balances: { chain: string; token: string; symbol: string; amount: string }[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+/**
+ * Rebuilds the request body from the fields the backend takes, so nothing
+ * else reaches it. Returns `undefined` when the body is malformed.
+ */
+export function sanitizeIntentRequest(
+  body: unknown
+): IntentRequest | undefined {
+  if (!isRecord(body) || !isString(body["question"])) {
+    return undefined;
+  }
+  const question = body["question"].trim();
+  if (question === "" || question.length > MAX_QUESTION_LENGTH) {
+    return undefined;
+  }
+  const history = Array.isArray(body["history"]) ? body["history"] : [];
+  const balances = Array.isArray(body["balances"]) ? body["balances"] : [];
+  return {
+    question,
+    schema_version: body["schema_version"],
+    history: history
+      .filter(isRecord)
+      .filter(
+        ({ role, content }) =>
+          (role === "user" || role === "assistant") &&
+          isString(content) &&
+          content.length <= MAX_QUESTION_LENGTH
+      )
+      .slice(-MAX_HISTORY_TURNS)
+      .map(({ role, content }) => ({
+        role: role as "user" | "assistant",
+        content: content as string,
+      })),
+    balances: balances
+      .filter(isRecord)
+      .filter(({ chain, token, symbol, amount }) =>
+        [chain, token, symbol, amount].every(isString)
+      )
+      .slice(0, MAX_BALANCES)
+      .map(({ chain, token, symbol, amount }) => ({
+        chain: chain as string,
+        token: token as string,
+        symbol: symbol as string,
+        amount: amount as string,
+      })),
+  };
+}
+
+// Top-level fields of the `/answer/` payload the dashboard reads
+const RESPONSE_FIELDS = [
+  "schema_version",
+  "transaction_type",
+  "response",
+  "steps",
+  "clarification_needed",
+  "schedule",
+];
+
+/**
+ * Keeps only the payload fields the dashboard reads, dropping anything else
+ * the backend returns, such as prompts or traces.
+ */
+export function sanitizeIntentResponse(
+  data: unknown
+): Record<string, unknown> | undefined {
+  if (!isRecord(data)) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    RESPONSE_FIELDS.filter((field) => field in data).map((field) => [
+      field,
+      data[field],
+    ])
+  );
+}
+
+/**
+ * Fixed-window request counter per key. Windows are kept in memory, so the
+ * limit applies per server instance.
+ */
+export class RateLimiter {
+  private readonly windows = new Map<
+    string,
+    { start: number; count: number }
+  >();
+
+  constructor(readonly limit: number, readonly windowMs: number) {}
+
+  /**
+   * Counts a request made by `key`. Returns the milliseconds until the key
+   * may make requests again if it is over the limit, or `undefined`.
+   */
+  take(key: string, now: number = Date.now()): number | undefined {
+    let window = this.windows.get(key);
+    if (window === undefined || now - window.start >= this.windowMs) {
+      this.prune(now);
+      window = { start: now, count: 0 };
+      this.windows.set(key, window);
+    }
+    if (window.count >= this.limit) {
+      return window.start + this.windowMs - now;
+    }
+    window.count++;
+    return undefined;
+  }
+
+  private prune(now: number) {
+    this.windows.forEach(({ start }, key) => {
+      if (now - start >= this.windowMs) {
+        this.windows.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { WETH_ABI } from "./abi";
+import { findToken, Token } from "./tokens";
+import { resolveRecipient } from "./utils";
+import { getChainId } from "./chains";
+import { ExecutionAdapter, switchWalletChain } from "./execution";
+import { Contact } from "./contacts";
+
+export type NativeTransferPreview = {
+  recipient: string;
+  recipientAddress: string;
+  chain: string;
+  amount: string;
+};
+
+export type WrapPreview = {
+  direction: "wrap" | "unwrap";
+  chain: string;
+  amount: string;
+  weth: Token;
+};
+
+export function getWeth(chain: string): Token {
+  const weth = findToken(getChainId(chain), "WETH");
+  if (weth === undefined) {
+    throw new Error(`No WETH on chain: ${chain}`);
+  }
+  return weth;
+}
+
+export function buildWrapRequest(
+  direction: WrapPreview["direction"],
+  weth: Token,
+  value: ethers.BigNumber
+): ethers.providers.TransactionRequest {
+  const wethInterface = new ethers.utils.Interface(WETH_ABI);
+  return direction === "wrap"
+    ? {
+        to: weth.address,
+        value,
+        data: wethInterface.encodeFunctionData("deposit"),
+      }
+    : {
+        to: weth.address,
+        data: wethInterface.encodeFunctionData("withdraw", [value]),
+      };
+}
+
+export async function previewNativeTransaction(
+  receiver: string,
+  amount: string,
+  chain: string,
+  contacts: Contact[] = []
+): Promise<NativeTransferPreview> {
+  getChainId(chain);
+  // fail early on amounts that can't be represented
+  ethers.utils.parseEther(amount);
+
+  return {
+    recipient: receiver,
+    recipientAddress: await resolveRecipient(receiver, chain, contacts),
+    chain,
+    amount,
+  };
+}
+
+export async function sendNativeTransaction(
+  adapter: ExecutionAdapter,
+  receiver: string,
+  amount: string,
+  chain: string
+): Promise<ethers.providers.TransactionResponse> {
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
+  }
+
+  await switchWalletChain(wallet, getChainId(chain));
+  const provider = await wallet.getEthersProvider();
+  const signer = provider.getSigner();
+
+  const to = await resolveRecipient(receiver, chain);
+  console.log("Sending transaction...");
+  return await signer.sendTransaction({
+    to,
+    value: ethers.utils.parseEther(amount),
+  });
+}
+
+export function previewWrap(
+  direction: WrapPreview["direction"],
+  amount: string,
+  chain: string
+): WrapPreview {
+  const weth = getWeth(chain);
+  ethers.utils.parseUnits(amount, weth.decimals);
+
+  return { direction, chain, amount, weth };
+}
+
+export async function sendWrapTransaction(
+  adapter: ExecutionAdapter,
+  preview: WrapPreview
+): Promise<ethers.providers.TransactionResponse> {
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
+  }
+
+  await switchWalletChain(wallet, getChainId(preview.chain));
+  const provider = await wallet.getEthersProvider();
+  const signer = provider.getSigner();
+
+  const value = ethers.utils.parseUnits(preview.amount, preview.weth.decimals);
+  console.log(
+    preview.direction === "wrap" ? "Wrapping ETH..." : "Unwrapping WETH..."
+  );
+  return await signer.sendTransaction(
+    buildWrapRequest(preview.direction, preview.weth, value)
+  );
+}
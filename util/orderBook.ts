@@ -0,0 +1,184 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import {
+  EnrichedOrder,
+  OrderBookApi,
+  OrderCancellations,
+  OrderClass,
+  OrderCreation,
+  OrderKind,
+  OrderQuoteRequest,
+  OrderQuoteResponse,
+  OrderStatus,
+} from "@cowprotocol/cow-sdk";
+import { findToken } from "./tokens";
+
+// The parts of CoW's order book API that we use, so it can be stood in for
+export type OrderBook = Pick<
+  OrderBookApi,
+  | "getQuote"
+  | "sendOrder"
+  | "getOrder"
+  | "getOrders"
+  | "sendSignedOrderCancellations"
+>;
+
+// How long quotes of the in-memory order book stay valid, in seconds
+const QUOTE_VALIDITY = 30 * 60;
+
+/**
+ * Order book kept in memory, for running swaps against a local node or in a
+ * dry run. Quotes are one unit for one unit, without fees. Market orders fill
+ * as soon as they are sent and limit orders stay open until cancelled or
+ * expired; no tokens actually change hands either way.
+ */
+export class MemoryOrderBook implements OrderBook {
+  private readonly chainId: number;
+  private readonly orders = new Map<string, EnrichedOrder>();
+  private nextQuoteId = 1;
+
+  constructor(chainId: number) {
+    this.chainId = chainId;
+  }
+
+  private decimalsOf(token: string): number {
+    return findToken(this.chainId, token)?.decimals ?? 18;
+  }
+
+  // Converts an amount of `from` into the same number of units of `to`
+  private convert(amount: string, from: string, to: string): string {
+    return ethers.utils
+      .parseUnits(
+        ethers.utils.formatUnits(amount, this.decimalsOf(from)),
+        this.decimalsOf(to)
+      )
+      .toString();
+  }
+
+  async getQuote(request: OrderQuoteRequest): Promise<OrderQuoteResponse> {
+    const { sellToken, buyToken } = request;
+    const [kind, sellAmount, buyAmount] =
+      "buyAmountAfterFee" in request
+        ? [
+            OrderKind.BUY,
+            this.convert(request.buyAmountAfterFee, buyToken, sellToken),
+            request.buyAmountAfterFee,
+          ]
+        : "sellAmountBeforeFee" in request
+        ? [
+            OrderKind.SELL,
+            request.sellAmountBeforeFee,
+            this.convert(request.sellAmountBeforeFee, sellToken, buyToken),
+          ]
+        : [
+            OrderKind.SELL,
+            request.sellAmountAfterFee,
+            this.convert(request.sellAmountAfterFee, sellToken, buyToken),
+          ];
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      quote: {
+        sellToken,
+        buyToken,
+        receiver: request.receiver ?? request.from,
+        sellAmount,
+        buyAmount,
+        validTo: now + QUOTE_VALIDITY,
+        appData: ethers.constants.HashZero,
+        feeAmount: "0",
+        kind,
+        partiallyFillable: false,
+      },
+      from: request.from,
+      expiration: new Date((now + QUOTE_VALIDITY) * 1000).toISOString(),
+      id: this.nextQuoteId++,
+      verified: false,
+    };
+  }
+
+  async sendOrder(order: OrderCreation): Promise<string> {
+    const owner = order.from ?? ethers.constants.AddressZero;
+    const digest = ethers.utils.keccak256(
+      ethers.utils.toUtf8Bytes(JSON.stringify(order))
+    );
+    const uid = ethers.utils.solidityPack(
+      ["bytes32", "address", "uint32"],
+      [digest, owner, order.validTo]
+    );
+    // Orders placed on a quote are market orders, the rest are limit orders
+    const filled = order.quoteId !== undefined && order.quoteId !== null;
+    this.orders.set(uid, {
+      ...order,
+      creationDate: new Date().toISOString(),
+      class: filled ? OrderClass.MARKET : OrderClass.LIMIT,
+      owner,
+      uid,
+      executedSellAmount: filled ? order.sellAmount : "0",
+      executedSellAmountBeforeFees: filled ? order.sellAmount : "0",
+      executedBuyAmount: filled ? order.buyAmount : "0",
+      executedFeeAmount: "0",
+      invalidated: false,
+      status: filled ? OrderStatus.FULFILLED : OrderStatus.OPEN,
+      totalFee: "0",
+    });
+    return uid;
+  }
+
+  async getOrder(uid: string): Promise<EnrichedOrder> {
+    const order = this.orders.get(uid);
+    if (order === undefined) {
+      throw new Error(`Unknown order: ${uid}`);
+    }
+    if (
+      order.status === OrderStatus.OPEN &&
+      order.validTo * 1000 < Date.now()
+    ) {
+      order.status = OrderStatus.EXPIRED;
+    }
+    return order;
+  }
+
+  async getOrders({ owner }: { owner: string }): Promise<EnrichedOrder[]> {
+    const orders = [...this.orders.values()].filter(
+      (order) => order.owner.toLowerCase() === owner.toLowerCase()
+    );
+    return await Promise.all(orders.map(({ uid }) => this.getOrder(uid)));
+  }
+
+  async sendSignedOrderCancellations({
+    orderUids = [],
+  }: OrderCancellations): Promise<void> {
+    for (const uid of orderUids) {
+      const order = await this.getOrder(uid);
+      if (order.status === OrderStatus.OPEN) {
+        order.status = OrderStatus.CANCELLED;
+        order.invalidated = true;
+      }
+    }
+  }
+}
+
+export const cowOrderBook = (chainId: number): OrderBook =>
+  new OrderBookApi({ chainId });
@@ -0,0 +1,289 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "./abi";
+import { findChain, getChainId, getReadProvider } from "./chains";
+import { InvalidPaymentRequestError } from "./errors";
+import { ExecutionAdapter, switchWalletChain } from "./execution";
+import {
+  MAX_MEMO_LENGTH,
+  PaymentRequestIntent,
+  TransferIntent,
+} from "./intent";
+import { readStorage, walletStorageKey, writeStorage } from "./storage";
+import { resolveToken } from "./tokens";
+
+/**
+ * A request for someone to pay `recipient`, signed by the recipient so that
+ * whoever opens the link can trust where the money goes.
+ */
+export type PaymentRequest = {
+  recipient: string;
+  chainId: number;
+  token: string;
+  // In the token's units, e.g. "25" for 25 USDC
+  amount: string;
+  memo: string;
+  // Tells apart requests that are otherwise the same
+  nonce: string;
+};
+
+export type SignedPaymentRequest = PaymentRequest & { signature: string };
+
+// A request the user made, kept to tell when it gets paid
+export type PaymentRequestRecord = SignedPaymentRequest & {
+  createdAt: number;
+  // Transfers from this block on can pay the request
+  fromBlock: number;
+  // Last block looked through for a payment so far
+  scannedTo?: number;
+  // Hash of the paying transfer, once seen
+  paidBy?: string;
+};
+
+// Chain-agnostic, as the request names its chain itself
+const PAYMENT_REQUEST_DOMAIN = {
+  name: "txt2txn payment request",
+  version: "1",
+};
+
+const PAYMENT_REQUEST_TYPES = {
+  PaymentRequest: [
+    { name: "recipient", type: "address" },
+    { name: "chainId", type: "uint256" },
+    { name: "token", type: "address" },
+    { name: "amount", type: "string" },
+    { name: "memo", type: "string" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+/**
+ * Has the wallet sign a request to be paid `request.amount` of its token,
+ * noting the current block to look for the payment from.
+ */
+export async function createPaymentRequest(
+  adapter: ExecutionAdapter,
+  request: PaymentRequestIntent
+): Promise<PaymentRequestRecord> {
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
+  }
+
+  const chainId = getChainId(request.chain);
+  const readProvider = getReadProvider(chainId);
+  const [token, fromBlock] = await Promise.all([
+    resolveToken(chainId, request.token, readProvider),
+    readProvider.getBlockNumber(),
+  ]);
+  // Fails early on amounts with more decimals than the token has, and on
+  // zero, which any zero-value transfer, free for anyone to make, would pay
+  if (ethers.utils.parseUnits(request.amount, token.decimals).isZero()) {
+    throw new Error("Payment requests need an amount above zero");
+  }
+
+  const unsigned: PaymentRequest = {
+    recipient: ethers.utils.getAddress(wallet.address),
+    chainId,
+    token: token.address,
+    amount: request.amount,
+    memo: request.memo ?? "",
+    nonce: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+  };
+  await switchWalletChain(wallet, chainId);
+  const provider = await wallet.getEthersProvider();
+  const signature = await provider
+    .getSigner()
+    ._signTypedData(PAYMENT_REQUEST_DOMAIN, PAYMENT_REQUEST_TYPES, unsigned);
+  return { ...unsigned, signature, createdAt: Date.now(), fromBlock };
+}
+
+// URL-safe base64 of the signed request, as it goes in a query string
+export function encodePaymentRequest(request: SignedPaymentRequest): string {
+  const { recipient, chainId, token, amount, memo, nonce, signature } = request;
+  const json = JSON.stringify({
+    recipient,
+    chainId,
+    token,
+    amount,
+    memo,
+    nonce,
+    signature,
+  });
+  return ethers.utils.base64
+    .encode(ethers.utils.toUtf8Bytes(json))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Decodes a request from its link and checks it was signed by its
+ * recipient, throwing `InvalidPaymentRequestError` otherwise.
+ */
+export function decodePaymentRequest(encoded: string): SignedPaymentRequest {
+  let fields: unknown;
+  try {
+    const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+    fields = JSON.parse(
+      ethers.utils.toUtf8String(
+        ethers.utils.base64.decode(
+          base64.padEnd(Math.ceil(base64.length / 4) * 4, "=")
+        )
+      )
+    );
+  } catch (error) {
+    console.error("Failed to decode payment request:", error);
+    throw new InvalidPaymentRequestError();
+  }
+  if (
+    !isRecord(fields) ||
+    typeof fields["recipient"] !== "string" ||
+    !ethers.utils.isAddress(fields["recipient"]) ||
+    typeof fields["chainId"] !== "number" ||
+    findChain(fields["chainId"]) === undefined ||
+    typeof fields["token"] !== "string" ||
+    !ethers.utils.isAddress(fields["token"]) ||
+    typeof fields["amount"] !== "string" ||
+    !/^\d+(\.\d+)?$/.test(fields["amount"]) ||
+    Number(fields["amount"]) <= 0 ||
+    typeof fields["memo"] !== "string" ||
+    fields["memo"].length > MAX_MEMO_LENGTH ||
+    typeof fields["nonce"] !== "string" ||
+    !ethers.utils.isHexString(fields["nonce"], 32) ||
+    typeof fields["signature"] !== "string"
+  ) {
+    throw new InvalidPaymentRequestError();
+  }
+
+  const request: SignedPaymentRequest = {
+    recipient: ethers.utils.getAddress(fields["recipient"]),
+    chainId: fields["chainId"],
+    token: ethers.utils.getAddress(fields["token"]),
+    amount: fields["amount"],
+    memo: fields["memo"],
+    nonce: fields["nonce"],
+    signature: fields["signature"],
+  };
+  let signer: string;
+  try {
+    const { signature, ...unsigned } = request;
+    signer = ethers.utils.verifyTypedData(
+      PAYMENT_REQUEST_DOMAIN,
+      PAYMENT_REQUEST_TYPES,
+      unsigned,
+      signature
+    );
+  } catch (error) {
+    console.error("Failed to verify payment request:", error);
+    throw new InvalidPaymentRequestError();
+  }
+  if (signer !== request.recipient) {
+    throw new InvalidPaymentRequestError();
+  }
+  return request;
+}
+
+export const paymentRequestUrl = (
+  request: SignedPaymentRequest,
+  origin: string
+) => `${origin}/dashboard?request=${encodePaymentRequest(request)}`;
+
+// The transfer that pays `request`, to be reviewed like any other
+export const paymentRequestIntent = (
+  request: PaymentRequest
+): TransferIntent => ({
+  transaction_type: "transfer",
+  recipientAddress: request.recipient,
+  chain: findChain(request.chainId)!,
+  amount: request.amount,
+  token: request.token,
+});
+
+// Blocks per log query, as public RPCs reject queries over large ranges
+export const LOG_QUERY_BLOCKS = 2000;
+
+// Queries per check, the blocks after those are left for the next check
+const MAX_LOG_QUERIES = 10;
+
+export type PaymentScan = {
+  // Hash of the paying transfer, if one was found
+  paidBy?: string;
+  // Last block looked through, to carry on from next time
+  scannedTo: number;
+};
+
+/**
+ * Looks for a `Transfer` of the requested amount to the recipient since the
+ * request was made, carrying on from the last block looked through. As a
+ * request doesn't know who will pay it, it is paid by the earliest such
+ * transfer that hasn't `claimed` another request already.
+ */
+export async function findPayment(
+  request: PaymentRequestRecord,
+  claimed: ReadonlySet<string> = new Set()
+): Promise<PaymentScan> {
+  const provider = getReadProvider(request.chainId);
+  const token = await resolveToken(request.chainId, request.token, provider);
+  const amount = ethers.utils.parseUnits(request.amount, token.decimals);
+  if (amount.isZero()) {
+    throw new InvalidPaymentRequestError();
+  }
+  const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+  const filter = contract.filters["Transfer"]!(null, request.recipient);
+
+  const latest = await provider.getBlockNumber();
+  let scannedTo = request.scannedTo ?? request.fromBlock - 1;
+  for (let query = 0; query < MAX_LOG_QUERIES && scannedTo < latest; query++) {
+    const toBlock = Math.min(scannedTo + LOG_QUERY_BLOCKS, latest);
+    const events = await contract.queryFilter(filter, scannedTo + 1, toBlock);
+    const payment = events.find(
+      ({ args, transactionHash }) =>
+        amount.eq(args?.["amount"] ?? 0) && !claimed.has(transactionHash)
+    );
+    if (payment) {
+      return { paidBy: payment.transactionHash, scannedTo: toBlock };
+    }
+    scannedTo = toBlock;
+  }
+  return { scannedTo };
+}
+
+const paymentRequestsKey = (address: string) =>
+  walletStorageKey("payment-requests", address);
+
+export function loadPaymentRequests(address: string): PaymentRequestRecord[] {
+  return readStorage<PaymentRequestRecord[]>(paymentRequestsKey(address), []);
+}
+
+export function savePaymentRequests(
+  address: string,
+  requests: PaymentRequestRecord[]
+) {
+  writeStorage(paymentRequestsKey(address), requests);
+}
@@ -0,0 +1,205 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { readStorage, walletStorageKey, writeStorage } from "./storage";
+
+// Caps on a single token, in whole units of it, such as "100" for 100 USDC
+export type TokenLimit = {
+  perTransaction?: string;
+  daily?: string;
+  // Spends above this need an extra confirmation, rather than being blocked
+  confirmAbove?: string;
+};
+
+export type SpendingPolicy = {
+  // Keyed by token symbol, applying to that token on every chain
+  limits: Record<string, TokenLimit>;
+  // Recipient addresses; when any are listed, all others are blocked
+  allowedRecipients: string[];
+  deniedRecipients: string[];
+  // Chains intents may run on, or every chain when empty
+  allowedChains: string[];
+};
+
+export const DEFAULT_SPENDING_POLICY: SpendingPolicy = {
+  limits: {},
+  allowedRecipients: [],
+  deniedRecipients: [],
+  allowedChains: [],
+};
+
+// What an intent does, as far as the policy is concerned
+export type PolicyAction = {
+  chains: string[];
+  // What leaves the wallet, if anything does
+  spend?: { symbol: string; amount: string };
+  recipient?: string;
+};
+
+export type PolicyCheck = {
+  violations: string[];
+  // Why the action needs an extra confirmation, if it does
+  confirmation: string | undefined;
+};
+
+export class PolicyViolationError extends Error {
+  violations: string[];
+
+  constructor(violations: string[]) {
+    super(`Blocked by your spending policy: ${violations.join("; ")}`);
+    this.name = "PolicyViolationError";
+    this.violations = violations;
+  }
+}
+
+// Amounts are compared as fixed-point numbers with this many decimals
+const AMOUNT_DECIMALS = 18;
+
+const toUnits = (amount: string) =>
+  ethers.utils.parseUnits(amount, AMOUNT_DECIMALS);
+
+const fromUnits = (amount: ethers.BigNumber) =>
+  ethers.utils.formatUnits(amount, AMOUNT_DECIMALS).replace(/\.0$/, "");
+
+export const isValidLimit = (amount: string) =>
+  /^\d+(\.\d{1,18})?$/.test(amount.trim());
+
+const policyKey = (owner: string) => walletStorageKey("spending-policy", owner);
+const spentKey = (owner: string) => walletStorageKey("spent", owner);
+
+export function loadSpendingPolicy(owner: string): SpendingPolicy {
+  return {
+    ...DEFAULT_SPENDING_POLICY,
+    ...readStorage<Partial<SpendingPolicy>>(policyKey(owner), {}),
+  };
+}
+
+export function saveSpendingPolicy(owner: string, policy: SpendingPolicy) {
+  writeStorage(policyKey(owner), policy);
+}
+
+// Daily totals reset at local midnight
+type SpentToday = { day: string; totals: Record<string, string> };
+
+const today = () => new Date().toDateString();
+
+export function loadSpentToday(owner: string): Record<string, string> {
+  const spent = readStorage<SpentToday | null>(spentKey(owner), null);
+  return spent?.day === today() ? spent.totals : {};
+}
+
+// Counts a spend towards today's total, as soon as it's sent
+export function recordSpend(owner: string, spend: PolicyAction["spend"]) {
+  writeStorage<SpentToday>(spentKey(owner), {
+    day: today(),
+    totals: addSpend(loadSpentToday(owner), spend),
+  });
+}
+
+/**
+ * Checks an action against the policy, given what was already spent today.
+ * Every rule is checked so that all violations can be shown at once.
+ */
+export function checkPolicy(
+  policy: SpendingPolicy,
+  action: PolicyAction,
+  spentToday: Record<string, string>
+): PolicyCheck {
+  const violations: string[] = [];
+  let confirmation: string | undefined;
+
+  if (policy.allowedChains.length > 0) {
+    for (const chain of action.chains) {
+      if (!policy.allowedChains.includes(chain)) {
+        violations.push(`${chain} is not one of your allowed chains`);
+      }
+    }
+  }
+
+  const recipient = action.recipient?.toLowerCase();
+  if (recipient !== undefined) {
+    const listed = (addresses: string[]) =>
+      addresses.some((address) => address.toLowerCase() === recipient);
+    if (listed(policy.deniedRecipients)) {
+      violations.push(`${action.recipient} is on your deny list`);
+    } else if (
+      policy.allowedRecipients.length > 0 &&
+      !listed(policy.allowedRecipients)
+    ) {
+      violations.push(`${action.recipient} is not on your allow list`);
+    }
+  }
+
+  if (action.spend !== undefined) {
+    const symbol = action.spend.symbol.toUpperCase();
+    const limit = policy.limits[symbol] ?? {};
+    const amount = toUnits(action.spend.amount);
+
+    if (
+      limit.perTransaction !== undefined &&
+      amount.gt(toUnits(limit.perTransaction))
+    ) {
+      violations.push(
+        `${action.spend.amount} ${symbol} is over your limit of ${limit.perTransaction} ${symbol} per transaction`
+      );
+    }
+    if (limit.daily !== undefined) {
+      const spent = toUnits(spentToday[symbol] ?? "0");
+      if (spent.add(amount).gt(toUnits(limit.daily))) {
+        violations.push(
+          `${
+            action.spend.amount
+          } ${symbol} would take you over your daily limit of ${
+            limit.daily
+          } ${symbol} (${fromUnits(spent)} ${symbol} spent today)`
+        );
+      }
+    }
+    if (
+      limit.confirmAbove !== undefined &&
+      amount.gt(toUnits(limit.confirmAbove))
+    ) {
+      confirmation = `${action.spend.amount} ${symbol} is above the ${limit.confirmAbove} ${symbol} you asked to confirm twice`;
+    }
+  }
+
+  return { violations, confirmation };
+}
+
+// Adds up spends by token, such as those of the earlier steps of a plan
+export function addSpend(
+  totals: Record<string, string>,
+  spend: PolicyAction["spend"]
+): Record<string, string> {
+  if (spend === undefined) {
+    return totals;
+  }
+  const symbol = spend.symbol.toUpperCase();
+  return {
+    ...totals,
+    [symbol]: fromUnits(
+      toUnits(totals[symbol] ?? "0").add(toUnits(spend.amount))
+    ),
+  };
+}
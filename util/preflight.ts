@@ -0,0 +1,336 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import {
+  COW_PROTOCOL_VAULT_RELAYER_ADDRESS,
+  SupportedChainId,
+} from "@cowprotocol/cow-sdk";
+import { ERC20_ABI, WETH_ABI } from "./abi";
+import { buildWrapRequest, WrapPreview } from "./native";
+import { Token } from "./tokens";
+import { SwapPreview } from "./utils";
+import {
+  getCctp,
+  getChainId,
+  getNativeCurrency,
+  getReadProvider,
+} from "./chains";
+import { BridgePreview, buildBurnRequest } from "./cctp";
+
+export type PreflightIssue = {
+  reason: "insufficient_balance" | "insufficient_gas" | "simulation_failed";
+  message: string;
+};
+
+export type PreflightResult = {
+  issues: PreflightIssue[];
+  // Upper bound of the network fee, in the native currency
+  estimatedFee: string | undefined;
+};
+
+const formatAmount = (amount: ethers.BigNumber, decimals: number) =>
+  ethers.utils.formatUnits(amount, decimals).replace(/\.0$/, "");
+
+function checkBalance(
+  symbol: string,
+  balance: ethers.BigNumber,
+  required: ethers.BigNumber,
+  decimals: number,
+  issues: PreflightIssue[]
+): boolean {
+  if (balance.gte(required)) {
+    return true;
+  }
+  issues.push({
+    reason: "insufficient_balance",
+    message: `insufficient ${symbol}: have ${formatAmount(
+      balance,
+      decimals
+    )}, need ${formatAmount(required, decimals)}`,
+  });
+  return false;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+// Pulls the revert reason out of an ethers error where there is one
+function revertReason(error: unknown): string {
+  if (isRecord(error)) {
+    const nested = error["error"];
+    if (typeof error["reason"] === "string") {
+      return error["reason"];
+    } else if (isRecord(nested) && typeof nested["message"] === "string") {
+      return nested["message"];
+    } else if (typeof error["message"] === "string") {
+      return error["message"];
+    }
+  }
+  return String(error);
+}
+
+/**
+ * Simulates `tx` and checks that the native balance covers the value sent
+ * plus the worst-case gas cost. Returns the estimated fee in wei, or
+ * undefined when the transaction would revert.
+ */
+async function checkGas(
+  chain: string,
+  from: string,
+  tx: ethers.providers.TransactionRequest,
+  issues: PreflightIssue[]
+): Promise<ethers.BigNumber | undefined> {
+  const provider = getReadProvider(getChainId(chain));
+  const native = getNativeCurrency(chain);
+  let gasLimit: ethers.BigNumber;
+  try {
+    gasLimit = await provider.estimateGas({ ...tx, from });
+  } catch (error) {
+    issues.push({
+      reason: "simulation_failed",
+      message: `transaction would fail: ${revertReason(error)}`,
+    });
+    return undefined;
+  }
+
+  const [feeData, nativeBalance] = await Promise.all([
+    provider.getFeeData(),
+    provider.getBalance(from),
+  ]);
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+  if (gasPrice === null) {
+    throw new Error("Could not estimate gas price");
+  }
+
+  const fee = gasLimit.mul(gasPrice);
+  const value = ethers.BigNumber.from(tx.value ?? 0);
+  if (nativeBalance.lt(value.add(fee))) {
+    issues.push({
+      reason: "insufficient_gas",
+      message: `insufficient ${native.symbol} for gas: have ${formatAmount(
+        nativeBalance,
+        native.decimals
+      )}, need ${formatAmount(value.add(fee), native.decimals)}`,
+    });
+  }
+  return fee;
+}
+
+const toResult = (
+  issues: PreflightIssue[],
+  fee: ethers.BigNumber | undefined
+): PreflightResult => ({
+  issues,
+  estimatedFee: fee && ethers.utils.formatEther(fee),
+});
+
+export async function preflightTransaction(
+  from: string,
+  chain: string,
+  token: Token,
+  recipientAddress: string,
+  amount: string
+): Promise<PreflightResult> {
+  const provider = getReadProvider(getChainId(chain));
+  const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+  const value = ethers.utils.parseUnits(amount, token.decimals);
+  const issues: PreflightIssue[] = [];
+
+  const balance: ethers.BigNumber = await contract.balanceOf(from);
+  if (!checkBalance(token.symbol, balance, value, token.decimals, issues)) {
+    return toResult(issues, undefined);
+  }
+
+  const tx = {
+    to: token.address,
+    data: contract.interface.encodeFunctionData("transfer", [
+      recipientAddress,
+      value,
+    ]),
+  };
+  try {
+    // Static call of the transfer, which reverts exactly like the real one
+    await provider.call({ ...tx, from });
+  } catch (error) {
+    issues.push({
+      reason: "simulation_failed",
+      message: `transfer would fail: ${revertReason(error)}`,
+    });
+    return toResult(issues, undefined);
+  }
+
+  const fee = await checkGas(chain, from, tx, issues);
+  return toResult(issues, fee);
+}
+
+export async function preflightNativeTransaction(
+  from: string,
+  chain: string,
+  recipientAddress: string,
+  amount: string
+): Promise<PreflightResult> {
+  const provider = getReadProvider(getChainId(chain));
+  const value = ethers.utils.parseEther(amount);
+  const issues: PreflightIssue[] = [];
+
+  const balance = await provider.getBalance(from);
+  const native = getNativeCurrency(chain);
+  if (!checkBalance(native.symbol, balance, value, native.decimals, issues)) {
+    return toResult(issues, undefined);
+  }
+
+  const fee = await checkGas(
+    chain,
+    from,
+    { to: recipientAddress, value },
+    issues
+  );
+  return toResult(issues, fee);
+}
+
+export async function preflightWrap(
+  from: string,
+  preview: WrapPreview
+): Promise<PreflightResult> {
+  const provider = getReadProvider(getChainId(preview.chain));
+  const { weth } = preview;
+  const value = ethers.utils.parseUnits(preview.amount, weth.decimals);
+  const issues: PreflightIssue[] = [];
+
+  const balance: ethers.BigNumber =
+    preview.direction === "wrap"
+      ? await provider.getBalance(from)
+      : await new ethers.Contract(weth.address, WETH_ABI, provider).balanceOf(
+          from
+        );
+  const symbol =
+    preview.direction === "wrap"
+      ? getNativeCurrency(preview.chain).symbol
+      : weth.symbol;
+  if (!checkBalance(symbol, balance, value, weth.decimals, issues)) {
+    return toResult(issues, undefined);
+  }
+
+  const fee = await checkGas(
+    preview.chain,
+    from,
+    buildWrapRequest(preview.direction, weth, value),
+    issues
+  );
+  return toResult(issues, fee);
+}
+
+// CoW orders are gasless, apart from the approval of the vault relayer
+export async function preflightOrder(
+  from: string,
+  preview: SwapPreview
+): Promise<PreflightResult> {
+  const chainId = getChainId(preview.chain);
+  const provider = getReadProvider(chainId);
+  const { sellToken } = preview;
+  const contract = new ethers.Contract(sellToken.address, ERC20_ABI, provider);
+  const value = ethers.BigNumber.from(preview.quote.sellAmount);
+  const issues: PreflightIssue[] = [];
+
+  const balance: ethers.BigNumber = await contract.balanceOf(from);
+  if (
+    !checkBalance(sellToken.symbol, balance, value, sellToken.decimals, issues)
+  ) {
+    return toResult(issues, undefined);
+  }
+
+  const vaultAddr =
+    COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId];
+  const allowance: ethers.BigNumber = await contract.allowance(from, vaultAddr);
+  if (allowance.gte(value)) {
+    return toResult(issues, undefined);
+  }
+
+  const fee = await checkGas(
+    preview.chain,
+    from,
+    {
+      to: sellToken.address,
+      data: contract.interface.encodeFunctionData("approve", [
+        vaultAddr,
+        value,
+      ]),
+    },
+    issues
+  );
+  return toResult(issues, fee);
+}
+
+/**
+ * Bridging burns on the source chain, so that's where the USDC and gas for
+ * the approval and burn must be, but minting also takes gas on the
+ * destination chain. The burn can only be simulated once it's approved.
+ */
+export async function preflightBridge(
+  from: string,
+  preview: BridgePreview
+): Promise<PreflightResult> {
+  const provider = getReadProvider(getChainId(preview.chain));
+  const { token } = preview;
+  const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+  const value = ethers.utils.parseUnits(preview.amount, token.decimals);
+  const issues: PreflightIssue[] = [];
+
+  const balance: ethers.BigNumber = await contract.balanceOf(from);
+  if (!checkBalance(token.symbol, balance, value, token.decimals, issues)) {
+    return toResult(issues, undefined);
+  }
+
+  const { tokenMessenger } = getCctp(preview.chain);
+  const allowance: ethers.BigNumber = await contract.allowance(
+    from,
+    tokenMessenger
+  );
+  const fee = await checkGas(
+    preview.chain,
+    from,
+    allowance.gte(value)
+      ? buildBurnRequest(preview)
+      : {
+          to: token.address,
+          data: contract.interface.encodeFunctionData("approve", [
+            tokenMessenger,
+            value,
+          ]),
+        },
+    issues
+  );
+
+  const destinationBalance = await getReadProvider(
+    getChainId(preview.destinationChain)
+  ).getBalance(from);
+  if (destinationBalance.isZero()) {
+    const { symbol } = getNativeCurrency(preview.destinationChain);
+    issues.push({
+      reason: "insufficient_gas",
+      message: `no ${symbol} on ${preview.destinationChain} to pay for the mint`,
+    });
+  }
+  return toResult(issues, fee);
+}
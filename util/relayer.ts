@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { EIP3009_ABI } from "./abi";
+import { RelayerError } from "./errors";
+
+// An EIP-3009 `transferWithAuthorization` signed by `from`
+export type TransferAuthorization = {
+  chainId: number;
+  token: string;
+  from: string;
+  to: string;
+  // Token base units, as a decimal string
+  value: string;
+  validAfter: number;
+  validBefore: number;
+  nonce: string;
+  signature: string;
+};
+
+/**
+ * Submits signed transfer authorizations on the holder's behalf, paying the
+ * gas, and returns the hash of the transaction that does so.
+ */
+export type Relayer = {
+  name: string;
+  relay(authorization: TransferAuthorization): Promise<string>;
+};
+
+/**
+ * Relays through an HTTP endpoint, which takes the authorization as JSON and
+ * answers with `{ hash }`.
+ */
+export const httpRelayer = (url: string): Relayer => ({
+  name: url,
+  async relay(authorization) {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(authorization),
+      });
+    } catch (error) {
+      console.error("Failed to reach the relayer:", error);
+      throw new RelayerError("unreachable");
+    }
+    if (!response.ok) {
+      throw new RelayerError(`status ${response.status}`);
+    }
+    const { hash } = (await response.json()) as { hash?: unknown };
+    if (typeof hash !== "string" || !ethers.utils.isHexString(hash, 32)) {
+      throw new RelayerError("no transaction hash");
+    }
+    return hash;
+  },
+});
+
+/**
+ * Stands in for a relayer by submitting the authorization itself with the
+ * signer `getSigner` returns for the chain, such as a local node's account.
+ */
+export const localRelayer = (
+  getSigner: (chainId: number) => Promise<ethers.Signer>
+): Relayer => ({
+  name: "Local relayer",
+  async relay(authorization) {
+    const { chainId, token, from, to, value, validAfter, validBefore, nonce } =
+      authorization;
+    const contract = new ethers.Contract(
+      token,
+      EIP3009_ABI,
+      await getSigner(chainId)
+    );
+    const { v, r, s } = ethers.utils.splitSignature(authorization.signature);
+    const tx: ethers.providers.TransactionResponse =
+      await contract.transferWithAuthorization(
+        from,
+        to,
+        value,
+        validAfter,
+        validBefore,
+        nonce,
+        v,
+        r,
+        s
+      );
+    return tx.hash;
+  },
+});
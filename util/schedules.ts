@@ -0,0 +1,379 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ExecutionAdapter } from "./execution";
+import {
+  cancelTransferAuthorization,
+  signTransferAuthorization,
+} from "./gasless";
+import {
+  Recurrence,
+  ScheduledIntent,
+  ScheduleSpec,
+  validateIntent,
+  validateSchedule,
+} from "./intent";
+import { TransferAuthorization } from "./relayer";
+import { readStorage, walletStorageKey, writeStorage } from "./storage";
+import { Token } from "./tokens";
+import {
+  TrackerOptions,
+  trackTransaction,
+  TransactionDroppedError,
+  TransactionReplacedError,
+} from "./tracker";
+
+// How many upcoming runs are authorized at once
+export const AUTHORIZED_RUNS = 3;
+
+// How long after its time an authorized run can still go out on its own
+const AUTHORIZED_RUN_WINDOW = 3 * 24 * 60 * 60;
+
+// Only the latest runs of a schedule are kept
+const MAX_RUNS = 50;
+
+export type ScheduleRun = {
+  // When the run was due
+  at: number;
+  // Runs are recorded as pending once sent, so they can't be sent twice
+  status: "pending" | "confirmed" | "failed" | "skipped";
+  hash?: string;
+  error?: string;
+  // Sent with an authorization signed ahead, without asking the user
+  automatic?: boolean;
+  // Block the run was sent at, to look for replacements from
+  fromBlock?: number;
+};
+
+// A transfer signed ahead for the run due `at`, for the relayer to submit
+export type AuthorizedRun = {
+  at: number;
+  authorization: TransferAuthorization;
+};
+
+export type Schedule = {
+  id: string;
+  // What the user asked for, such as "send 50 USDC to rent.eth monthly"
+  text: string;
+  intent: ScheduledIntent;
+  // The first run, which later runs repeat from
+  startsAt: number;
+  every?: Recurrence;
+  // Missing once a one-off schedule has run
+  nextRun?: number;
+  paused: boolean;
+  authorized: AuthorizedRun[];
+  runs: ScheduleRun[];
+  createdAt: number;
+};
+
+const daysInMonth = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+
+/**
+ * The `n`th run of a schedule starting at `startsAt`. Monthly runs keep the
+ * day of the month they started on, or the last day of shorter months.
+ */
+export function occurrence(
+  startsAt: number,
+  every: Recurrence,
+  n: number
+): number {
+  const date = new Date(startsAt);
+  if (every === "month") {
+    const day = date.getDate();
+    date.setDate(1);
+    date.setMonth(date.getMonth() + n);
+    date.setDate(Math.min(day, daysInMonth(date)));
+  } else {
+    date.setDate(date.getDate() + n * (every === "week" ? 7 : 1));
+  }
+  return date.getTime();
+}
+
+/**
+ * The first run of the schedule after `after`, or undefined once a one-off
+ * schedule is past. Runs missed in between are not caught up on.
+ */
+export function nextOccurrence(
+  { startsAt, every }: Pick<Schedule, "startsAt" | "every">,
+  after: number
+): number | undefined {
+  if (startsAt > after) {
+    return startsAt;
+  }
+  if (every === undefined) {
+    return undefined;
+  }
+  let n = 1;
+  while (occurrence(startsAt, every, n) <= after) {
+    n++;
+  }
+  return occurrence(startsAt, every, n);
+}
+
+// The next `count` runs of the schedule, from its next one on
+export function upcomingRuns(schedule: Schedule, count: number): number[] {
+  const runs: number[] = [];
+  let next = schedule.nextRun;
+  while (next !== undefined && runs.length < count) {
+    runs.push(next);
+    next = schedule.every ? nextOccurrence(schedule, next) : undefined;
+  }
+  return runs;
+}
+
+export function createSchedule(
+  text: string,
+  intent: ScheduledIntent,
+  { at, every }: ScheduleSpec,
+  now: number = Date.now()
+): Schedule {
+  return {
+    id: ethers.utils.hexlify(ethers.utils.randomBytes(16)),
+    text,
+    intent,
+    startsAt: at,
+    ...(every && { every }),
+    nextRun: at,
+    paused: false,
+    authorized: [],
+    runs: [],
+    createdAt: now,
+  };
+}
+
+export const isDue = (schedule: Schedule, now: number = Date.now()) =>
+  !schedule.paused && schedule.nextRun !== undefined && schedule.nextRun <= now;
+
+/**
+ * The authorization signed for the schedule's due run, if it can still be
+ * submitted, so that the run goes out without asking the user.
+ */
+export function dueAuthorization(
+  schedule: Schedule,
+  now: number = Date.now()
+): TransferAuthorization | undefined {
+  const authorized = schedule.authorized.find(
+    ({ at }) => at === schedule.nextRun
+  );
+  return authorized && now < authorized.authorization.validBefore * 1000
+    ? authorized.authorization
+    : undefined;
+}
+
+/**
+ * Records the outcome of the schedule's due run and moves it on to the next
+ * one, dropping the authorizations of runs that are now past.
+ */
+export function recordRun(
+  schedule: Schedule,
+  run: Omit<ScheduleRun, "at">,
+  now: number = Date.now()
+): Schedule {
+  const at = schedule.nextRun ?? now;
+  const after = Math.max(at, now);
+  const updated: Schedule = {
+    ...schedule,
+    authorized: schedule.authorized.filter(
+      (authorized) => authorized.at > after
+    ),
+    runs: [...schedule.runs, { ...run, at }].slice(-MAX_RUNS),
+  };
+  const nextRun = nextOccurrence(schedule, after);
+  if (nextRun === undefined) {
+    delete updated.nextRun;
+  } else {
+    updated.nextRun = nextRun;
+  }
+  return updated;
+}
+
+// Settles the run sent as `hash`, once it is confirmed or has failed
+export const updateRun = (
+  schedule: Schedule,
+  hash: string,
+  changes: Partial<ScheduleRun>
+): Schedule => ({
+  ...schedule,
+  runs: schedule.runs.map((run) =>
+    run.hash === hash ? { ...run, ...changes } : run
+  ),
+});
+
+/**
+ * Waits for a run sent as `hash`, e.g. one left pending by a reload, to
+ * settle, and returns the changes to make to it.
+ */
+export async function pollRun(
+  hash: string,
+  chain: string,
+  options: TrackerOptions = {}
+): Promise<Partial<ScheduleRun>> {
+  try {
+    const receipt = await trackTransaction(hash, chain, options);
+    return receipt.status === 1
+      ? { status: "confirmed", hash: receipt.transactionHash }
+      : {
+          status: "failed",
+          error: `Transaction ${receipt.transactionHash} reverted`,
+        };
+  } catch (error) {
+    if (
+      error instanceof TransactionDroppedError ||
+      error instanceof TransactionReplacedError
+    ) {
+      return { status: "failed", error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Changes the amount, first run or repetition of a schedule. Authorizations
+ * signed for the old schedule no longer apply, so they are dropped, though
+ * they stay valid on chain until cancelled with `cancelAuthorizedRuns`.
+ */
+export function editSchedule(
+  schedule: Schedule,
+  {
+    amount,
+    at,
+    every,
+  }: { amount: string; at: number; every: Recurrence | undefined },
+  now: number = Date.now()
+): Schedule {
+  const intent = validateIntent(schedule.intent.transaction_type, {
+    ...schedule.intent,
+    amount,
+  }) as ScheduledIntent;
+  const spec = validateSchedule({ at: new Date(at).toISOString(), every }, now);
+  const updated: Schedule = {
+    ...schedule,
+    intent,
+    startsAt: spec.at,
+    nextRun: spec.at,
+    authorized: [],
+  };
+  if (spec.every === undefined) {
+    delete updated.every;
+  } else {
+    updated.every = spec.every;
+  }
+  return updated;
+}
+
+// Pausing drops the authorizations too, so nothing goes out until resumed,
+// though like edits, they stay valid on chain until cancelled
+export const pauseSchedule = (schedule: Schedule, paused: boolean) => ({
+  ...schedule,
+  paused,
+  authorized: paused ? [] : schedule.authorized,
+});
+
+/**
+ * Signs EIP-3009 authorizations for the next runs of a token transfer
+ * schedule, each only valid from the time of its run. They are kept in this
+ * browser and handed to the relayer as each run comes due, so that those
+ * runs go out without a prompt.
+ */
+export async function authorizeRuns(
+  adapter: ExecutionAdapter,
+  schedule: Schedule,
+  recipientAddress: string,
+  token: Token,
+  count: number = AUTHORIZED_RUNS
+): Promise<AuthorizedRun[]> {
+  const { intent } = schedule;
+  if (intent.transaction_type !== "transfer") {
+    throw new Error("Only token transfers can be authorized ahead");
+  }
+  if (!adapter.relayer) {
+    throw new Error("No relayer is set up to send authorized runs");
+  }
+
+  const authorized: AuthorizedRun[] = [];
+  for (const at of upcomingRuns(schedule, count)) {
+    // Authorizations are only valid strictly after `validAfter`
+    const validAfter = Math.floor(at / 1000) - 1;
+    const authorization = await signTransferAuthorization(
+      adapter,
+      recipientAddress,
+      intent.amount,
+      intent.chain,
+      token,
+      validAfter,
+      validAfter + AUTHORIZED_RUN_WINDOW
+    );
+    authorized.push({ at, authorization });
+  }
+  return authorized;
+}
+
+// Authorizations of `runs` that `schedule` no longer has, once changed
+export const droppedRuns = (
+  runs: AuthorizedRun[],
+  schedule: Schedule | undefined
+): AuthorizedRun[] =>
+  runs.filter(
+    ({ authorization }) =>
+      !schedule?.authorized.some(
+        (authorized) => authorized.authorization.nonce === authorization.nonce
+      )
+  );
+
+/**
+ * Cancels the authorizations of runs that were dropped, such as by pausing,
+ * editing or deleting their schedule, which would otherwise stay valid on
+ * chain until they expire. Those already used are left as they are, and
+ * returned.
+ */
+export async function cancelAuthorizedRuns(
+  adapter: ExecutionAdapter,
+  runs: AuthorizedRun[]
+): Promise<AuthorizedRun[]> {
+  const used: AuthorizedRun[] = [];
+  const cancellations: ethers.providers.TransactionResponse[] = [];
+  for (const run of runs) {
+    const tx = await cancelTransferAuthorization(adapter, run.authorization);
+    if (tx) {
+      cancellations.push(tx);
+    } else {
+      used.push(run);
+    }
+  }
+  await Promise.all(cancellations.map((tx) => tx.wait(1)));
+  return used;
+}
+
+const schedulesKey = (address: string) =>
+  walletStorageKey("schedules", address);
+
+export function loadSchedules(address: string): Schedule[] {
+  return readStorage<Schedule[]>(schedulesKey(address), []);
+}
+
+export function saveSchedules(address: string, schedules: Schedule[]) {
+  writeStorage(schedulesKey(address), schedules);
+}
@@ -0,0 +1,229 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "./abi";
+import { UnsupportedTokenError } from "./errors";
+
+export type Token = {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+};
+
+const USDC_LOGO = "/tokens/usdc.svg";
+const EURC_LOGO = "/tokens/eurc.svg";
+const DAI_LOGO = "/tokens/dai.svg";
+const WETH_LOGO = "/tokens/weth.svg";
+
+// Tokens are listed in order of preference, so that a symbol lookup for a
+// symbol shared by several tokens returns the first one
+const tokenRegistry: { [chainId: number]: Token[] } = {
+  // sepolia
+  11155111: [
+    {
+      address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+      logoURI: USDC_LOGO,
+    },
+    {
+      address: "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4",
+      symbol: "EURC",
+      name: "Euro Coin",
+      decimals: 6,
+      logoURI: EURC_LOGO,
+    },
+    {
+      address: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14",
+      symbol: "WETH",
+      name: "Wrapped Ether",
+      decimals: 18,
+      logoURI: WETH_LOGO,
+    },
+    {
+      address: "0xB4F1737Af37711e9A5890D9510c9bB60e170CB0D",
+      symbol: "DAI",
+      name: "CoW Swap test DAI",
+      decimals: 18,
+      logoURI: DAI_LOGO,
+    },
+    {
+      address: "0xbe72E441BF55620febc26715db68d3494213D8Cb",
+      symbol: "USDC",
+      name: "CoW Swap test USDC",
+      decimals: 18,
+      logoURI: USDC_LOGO,
+    },
+  ],
+  // mainnet
+  1: [
+    {
+      address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+      logoURI: USDC_LOGO,
+    },
+    {
+      address: "0x1aBaEA1f7C830bD89Acc67eC4af516284b1bC33c",
+      symbol: "EURC",
+      name: "Euro Coin",
+      decimals: 6,
+      logoURI: EURC_LOGO,
+    },
+    {
+      address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+      symbol: "WETH",
+      name: "Wrapped Ether",
+      decimals: 18,
+      logoURI: WETH_LOGO,
+    },
+    {
+      address: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+      symbol: "DAI",
+      name: "Dai Stablecoin",
+      decimals: 18,
+      logoURI: DAI_LOGO,
+    },
+  ],
+  // base-sepolia
+  84532: [
+    {
+      address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+      logoURI: USDC_LOGO,
+    },
+  ],
+  // base
+  8453: [
+    {
+      address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+      logoURI: USDC_LOGO,
+    },
+    {
+      address: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+      symbol: "EURC",
+      name: "Euro Coin",
+      decimals: 6,
+      logoURI: EURC_LOGO,
+    },
+    {
+      address: "0x4200000000000000000000000000000000000006",
+      symbol: "WETH",
+      name: "Wrapped Ether",
+      decimals: 18,
+      logoURI: WETH_LOGO,
+    },
+    {
+      address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+      symbol: "DAI",
+      name: "Dai Stablecoin",
+      decimals: 18,
+      logoURI: DAI_LOGO,
+    },
+  ],
+};
+
+// Tokens read from chain, keyed by `${chainId}:${lowercase address}`
+const onChainTokenCache = new Map<string, Token>();
+
+const cacheKey = (chainId: number, address: string) =>
+  `${chainId}:${address.toLowerCase()}`;
+
+export function getRegisteredTokens(chainId: number): Token[] {
+  return tokenRegistry[chainId] ?? [];
+}
+
+/**
+ * Looks a token up by address or by symbol (case-insensitive) among the
+ * registered tokens and those already read from chain.
+ */
+export function findToken(
+  chainId: number,
+  symbolOrAddress: string
+): Token | undefined {
+  if (ethers.utils.isAddress(symbolOrAddress)) {
+    const address = symbolOrAddress.toLowerCase();
+    return (
+      getRegisteredTokens(chainId).find(
+        (token) => token.address.toLowerCase() === address
+      ) ?? onChainTokenCache.get(cacheKey(chainId, symbolOrAddress))
+    );
+  }
+
+  const symbol = symbolOrAddress.toUpperCase();
+  return getRegisteredTokens(chainId).find(
+    (token) => token.symbol.toUpperCase() === symbol
+  );
+}
+
+/**
+ * Resolves a token by symbol or address. Addresses missing from the registry
+ * are looked up on chain through `provider` and cached.
+ */
+export async function resolveToken(
+  chainId: number,
+  symbolOrAddress: string,
+  provider: ethers.providers.Provider
+): Promise<Token> {
+  const known = findToken(chainId, symbolOrAddress);
+  if (known) {
+    return known;
+  }
+
+  if (!ethers.utils.isAddress(symbolOrAddress)) {
+    throw new UnsupportedTokenError(symbolOrAddress);
+  }
+
+  const contract = new ethers.Contract(symbolOrAddress, ERC20_ABI, provider);
+  let token: Token;
+  try {
+    const [decimals, symbol, name]: [number, string, string] =
+      await Promise.all([
+        contract.decimals(),
+        contract.symbol(),
+        contract.name(),
+      ]);
+    token = {
+      address: ethers.utils.getAddress(symbolOrAddress),
+      symbol,
+      name,
+      decimals,
+    };
+  } catch (error) {
+    console.error("Failed to read token metadata:", error);
+    throw new UnsupportedTokenError(symbolOrAddress);
+  }
+
+  onChainTokenCache.set(cacheKey(chainId, symbolOrAddress), token);
+  return token;
+}
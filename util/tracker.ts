@@ -0,0 +1,429 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { EnrichedOrder, OrderStatus } from "@cowprotocol/cow-sdk";
+import { getChainId, getReadProvider } from "./chains";
+import { cowOrderBook, OrderBook } from "./orderBook";
+
+export type ProgressEvent =
+  | { type: "submitted"; id: string }
+  | { type: "retrying"; attempt: number; error: string }
+  | { type: "replaced"; hash: string; replacement: string; sped_up: boolean }
+  | { type: "mined"; hash: string; blockNumber: number }
+  | { type: "confirmations"; hash: string; confirmations: number }
+  | { type: "presignature_pending"; id: string }
+  | {
+      type: "partially_filled" | "fulfilled";
+      id: string;
+      executedSellAmount: string;
+      executedBuyAmount: string;
+    }
+  | { type: "expired" | "cancelled"; id: string }
+  // Start of one stage of something that takes several, such as a bridge
+  | { type: "stage"; stage: string };
+
+export type TrackerOptions = {
+  timeoutMs?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  // Confirmations to wait for after a transaction is mined
+  confirmations?: number;
+  // How long a transaction may be unknown to the node before it's dropped
+  droppedAfterMs?: number;
+  // A block from before the transaction was sent, which replacements are
+  // looked for from. Defaults to the latest block when tracking starts.
+  fromBlock?: number | undefined;
+  signal?: AbortSignal;
+  onProgress?: (event: ProgressEvent) => void;
+  // Where orders are polled, CoW's order book unless given
+  orderBook?: OrderBook;
+};
+
+const DEFAULT_OPTIONS = {
+  timeoutMs: 15 * 60 * 1000,
+  initialDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+  backoffFactor: 1.5,
+  confirmations: 1,
+  droppedAfterMs: 5 * 60 * 1000,
+};
+
+type Settings = typeof DEFAULT_OPTIONS & TrackerOptions;
+
+const withDefaults = (
+  options: TrackerOptions,
+  defaults: Partial<typeof DEFAULT_OPTIONS> = {}
+): Settings => {
+  const settings: Settings = { ...DEFAULT_OPTIONS, ...defaults };
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) {
+      (settings as Record<string, unknown>)[key] = value;
+    }
+  }
+  return settings;
+};
+
+export class TrackingTimeoutError extends Error {
+  constructor(id: string) {
+    super(`Timed out waiting for ${id}`);
+    this.name = "TrackingTimeoutError";
+  }
+}
+
+export class TrackingAbortedError extends Error {
+  constructor(id: string) {
+    super(`Stopped tracking ${id}`);
+    this.name = "TrackingAbortedError";
+  }
+}
+
+export class TransactionDroppedError extends Error {
+  constructor(hash: string) {
+    super(`Transaction ${hash} was dropped`);
+    this.name = "TransactionDroppedError";
+  }
+}
+
+export class TransactionReplacedError extends Error {
+  replacement: string;
+
+  constructor(hash: string, replacement: string) {
+    super(`Transaction ${hash} was replaced by ${replacement}`);
+    this.name = "TransactionReplacedError";
+    this.replacement = replacement;
+  }
+}
+
+// Polling schedule with exponential backoff, a deadline and abort support
+class Poller {
+  private delay: number;
+  private attempt = 0;
+  private deadline: number;
+
+  constructor(private readonly id: string, private readonly options: Settings) {
+    this.delay = options.initialDelayMs;
+    this.deadline = Date.now() + options.timeoutMs;
+  }
+
+  setDeadline(deadline: number) {
+    this.deadline = deadline;
+  }
+
+  // Back to polling quickly, after some progress was made
+  reset() {
+    this.delay = this.options.initialDelayMs;
+    this.attempt = 0;
+  }
+
+  emit(event: ProgressEvent) {
+    this.options.onProgress?.(event);
+  }
+
+  retry(error: unknown) {
+    this.attempt += 1;
+    this.emit({
+      type: "retrying",
+      attempt: this.attempt,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  async wait(): Promise<void> {
+    const { signal } = this.options;
+    if (signal?.aborted) {
+      throw new TrackingAbortedError(this.id);
+    }
+    const remaining = this.deadline - Date.now();
+    if (remaining <= 0) {
+      throw new TrackingTimeoutError(this.id);
+    }
+
+    const ms = Math.min(this.delay, remaining);
+    this.delay = Math.min(
+      this.delay * this.options.backoffFactor,
+      this.options.maxDelayMs
+    );
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new TrackingAbortedError(this.id));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Polls `check` until it returns something, with the same backoff, timeout
+ * and abort handling as the trackers below. Errors thrown by `check` are
+ * retried until the timeout.
+ */
+export async function pollUntil<T>(
+  id: string,
+  check: () => Promise<T | undefined>,
+  options: TrackerOptions = {}
+): Promise<T> {
+  const poller = new Poller(id, withDefaults(options));
+  for (;;) {
+    await poller.wait();
+    try {
+      const result = await check();
+      if (result !== undefined) {
+        return result;
+      }
+    } catch (error) {
+      poller.retry(error);
+    }
+  }
+}
+
+/**
+ * Polls a CoW order until it is fulfilled, expired or cancelled, and returns
+ * it in its final state. Network errors are retried until the timeout. By
+ * default that is the usual timeout until the order book first returns the
+ * order, so that an unknown order isn't polled forever, and then shortly
+ * after the order expires.
+ */
+export async function trackOrder(
+  orderId: string,
+  chain: string,
+  options: TrackerOptions = {}
+): Promise<EnrichedOrder> {
+  const orderBookApi = options.orderBook ?? cowOrderBook(getChainId(chain));
+  const poller = new Poller(orderId, withDefaults(options));
+  poller.emit({ type: "submitted", id: orderId });
+
+  let executedSellAmount = "0";
+  let status: OrderStatus | undefined;
+  for (;;) {
+    await poller.wait();
+
+    let order: EnrichedOrder;
+    try {
+      order = await orderBookApi.getOrder(orderId);
+    } catch (error) {
+      poller.retry(error);
+      continue;
+    }
+
+    if (options.timeoutMs === undefined) {
+      // Give the order book a minute to mark the order expired
+      poller.setDeadline(order.validTo * 1000 + 60 * 1000);
+    }
+
+    const amounts = {
+      id: orderId,
+      executedSellAmount: order.executedSellAmount,
+      executedBuyAmount: order.executedBuyAmount,
+    };
+    switch (order.status) {
+      case OrderStatus.FULFILLED:
+        poller.emit({ type: "fulfilled", ...amounts });
+        return order;
+      case OrderStatus.EXPIRED:
+      case OrderStatus.CANCELLED:
+        poller.emit({ type: order.status, id: orderId });
+        return order;
+      case OrderStatus.PRESIGNATURE_PENDING:
+        if (status !== order.status) {
+          poller.emit({ type: "presignature_pending", id: orderId });
+          poller.reset();
+        }
+        break;
+      case OrderStatus.OPEN:
+        if (order.executedSellAmount !== executedSellAmount) {
+          executedSellAmount = order.executedSellAmount;
+          poller.emit({ type: "partially_filled", ...amounts });
+          poller.reset();
+        }
+        break;
+    }
+    status = order.status;
+  }
+}
+
+export async function waitForOrderStatus(
+  orderId: string,
+  chain: string,
+  options: TrackerOptions = {}
+): Promise<OrderStatus> {
+  const order = await trackOrder(orderId, chain, options);
+  return order.status;
+}
+
+/**
+ * The latest block on `chain`, to pass as `fromBlock` when tracking a
+ * transaction about to be sent. Undefined if the node can't be reached, in
+ * which case tracking falls back to the block it starts at.
+ */
+export async function currentBlock(chain: string): Promise<number | undefined> {
+  try {
+    return await getReadProvider(getChainId(chain)).getBlockNumber();
+  } catch (error) {
+    console.error(`Failed to get the latest block on ${chain}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Looks for another transaction that took the nonce of `tx`, mined from
+ * `fromBlock` on. `tx` itself may turn up when its receipt lags behind, and
+ * is passed over. Returns the replacement if there is one, along with the
+ * last block looked through.
+ */
+async function findReplacement(
+  provider: ethers.providers.Provider,
+  tx: ethers.providers.TransactionResponse,
+  fromBlock: number
+): Promise<{
+  replacement?: ethers.providers.TransactionResponse;
+  scannedTo: number;
+}> {
+  const latest = await provider.getBlockNumber();
+  for (let blockNumber = fromBlock; blockNumber <= latest; blockNumber++) {
+    const block = await provider.getBlockWithTransactions(blockNumber);
+    const replacement = block.transactions.find(
+      ({ hash, from, nonce }) =>
+        hash !== tx.hash &&
+        from.toLowerCase() === tx.from.toLowerCase() &&
+        nonce === tx.nonce
+    );
+    if (replacement) {
+      return { replacement, scannedTo: blockNumber };
+    }
+  }
+  return { scannedTo: Math.max(latest, fromBlock - 1) };
+}
+
+/**
+ * Waits for a transaction to be mined and confirmed. A transaction that is
+ * sped up (same call, higher fee) is followed to its replacement, while one
+ * that is replaced by a different call, or cancelled, fails the tracking.
+ */
+export async function trackTransaction(
+  hash: string,
+  chain: string,
+  options: TrackerOptions = {}
+): Promise<ethers.providers.TransactionReceipt> {
+  const provider = getReadProvider(getChainId(chain));
+  const settings = withDefaults(options);
+  const poller = new Poller(hash, settings);
+  poller.emit({ type: "submitted", id: hash });
+
+  let currentHash = hash;
+  let tx: ethers.providers.TransactionResponse | null = null;
+  // Replacements are looked for from the block the transaction was sent at,
+  // or else the one tracking starts at, each block only once
+  let scanFrom = options.fromBlock ?? (await currentBlock(chain));
+  let missingSince: number | undefined;
+  let receipt: ethers.providers.TransactionReceipt | null = null;
+  let confirmations = 0;
+
+  for (;;) {
+    await poller.wait();
+
+    try {
+      scanFrom ??= await provider.getBlockNumber();
+      receipt = await provider.getTransactionReceipt(currentHash);
+
+      if (receipt) {
+        if (confirmations === 0) {
+          poller.emit({
+            type: "mined",
+            hash: currentHash,
+            blockNumber: receipt.blockNumber,
+          });
+        }
+        const latest = await provider.getBlockNumber();
+        const current = latest - receipt.blockNumber + 1;
+        if (current > confirmations) {
+          confirmations = current;
+          poller.emit({
+            type: "confirmations",
+            hash: currentHash,
+            confirmations,
+          });
+          poller.reset();
+        }
+        if (confirmations >= settings.confirmations) {
+          return receipt;
+        }
+        continue;
+      }
+
+      tx = (await provider.getTransaction(currentHash)) ?? tx;
+      if (tx === null) {
+        missingSince ??= Date.now();
+        if (Date.now() - missingSince > settings.droppedAfterMs) {
+          throw new TransactionDroppedError(currentHash);
+        }
+        continue;
+      }
+      missingSince = undefined;
+
+      // A mined nonce without our receipt means the transaction was replaced
+      const nonce = await provider.getTransactionCount(tx.from, "latest");
+      if (nonce > tx.nonce) {
+        const { replacement, scannedTo } = await findReplacement(
+          provider,
+          tx,
+          scanFrom
+        );
+        scanFrom = scannedTo + 1;
+        if (replacement === undefined) {
+          continue;
+        }
+        const spedUp =
+          replacement.to === tx.to &&
+          replacement.data === tx.data &&
+          replacement.value.eq(tx.value);
+        poller.emit({
+          type: "replaced",
+          hash: currentHash,
+          replacement: replacement.hash,
+          sped_up: spedUp,
+        });
+        if (!spedUp) {
+          throw new TransactionReplacedError(currentHash, replacement.hash);
+        }
+        currentHash = replacement.hash;
+        tx = replacement;
+        poller.reset();
+      }
+    } catch (error) {
+      if (
+        error instanceof TransactionDroppedError ||
+        error instanceof TransactionReplacedError
+      ) {
+        throw error;
+      }
+      poller.retry(error);
+    }
+  }
+}
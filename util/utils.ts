@@ -22,9 +22,7 @@
  */
 
 import { ethers } from "ethers";
-import { ConnectedWallet } from "@privy-io/react-auth";
 import {
-  OrderBookApi,
   OrderSigningUtils,
   SupportedChainId,
   OrderQuoteSideKindSell,
@@ -32,90 +30,143 @@ import {
   COW_PROTOCOL_VAULT_RELAYER_ADDRESS,
   OrderQuoteRequest,
   OrderStatus,
+  OrderParameters,
+  OrderKind,
+  OrderQuoteSideKindBuy,
 } from "@cowprotocol/cow-sdk";
+import { ERC20_ABI } from "./abi";
+import {
+  ApprovalPolicy,
+  approvalAmount,
+  getPermitDomain,
+  signPermit,
+} from "./approvals";
+import { resolveToken, Token } from "./tokens";
+import { EnsResolutionError, EnsUnavailableError } from "./errors";
+import { ExecutionAdapter, switchWalletChain } from "./execution";
+import { Contact, findContact } from "./contacts";
+import {
+  getChainId,
+  getEnsProvider,
+  getReadProvider,
+  isCowSupported,
+} from "./chains";
 type Address = string;
 
-const decimalConverter: { [key: number]: { [key: string]: number } } = {
-  11155111: {
-    // sepolia
-    "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238": 6, // testnet USDC
-    "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4": 6, // testnet EURC
-    "0xB4F1737Af37711e9A5890D9510c9bB60e170CB0D": 18, // cowswap test DAI
-    "0xbe72E441BF55620febc26715db68d3494213D8Cb": 18, // cowswap test USDC
-  },
-  1: {
-    // mainnet
-    "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2": 18, // WETH
-    "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48": 6, // USDC
-    "0x6B175474E89094C44Da98b954EedeAC495271d0F": 18, // DAI
-  },
+// Intent as it was resolved for the user to review before anything is signed
+export type TransferPreview = {
+  recipient: string;
+  recipientAddress: Address;
+  chain: string;
+  token: Token;
+  amount: string;
+  // Signed as an EIP-3009 authorization and relayed, as there's no gas
+  gasless?: boolean;
 };
 
-export const chainToUrl: Record<string, string> = {
-  sepolia: "https://sepolia.etherscan.io/tx/",
-  base: "https://basescan.org/tx/",
-  mainnet: "https://etherscan.io/tx",
+export type SwapOptions = {
+  // Sell orders fix the amount sold, buy orders the amount bought
+  kind: OrderKind;
+  slippageBps: number;
+  // Price in buy token per sell token, or the other way around if
+  // `limitPriceOf` is "buyToken"; makes the order a limit order
+  limitPrice?: string;
+  // The token the limit price is the price of, the sell token by default
+  limitPriceOf?: "sellToken" | "buyToken";
+  // Seconds the order stays valid for
+  validFor?: number;
 };
 
-const supportedChains: { [key: string]: number } = {
-  sepolia: 11155111,
-  mainnet: 1,
-  base: 8453,
+export type SwapPreview = {
+  chain: string;
+  from: Address;
+  kind: OrderKind;
+  sellToken: Token;
+  buyToken: Token;
+  // Quoted amounts, one of which is exact depending on the order kind
+  sellAmount: string;
+  buyAmount: string;
+  // Minimum received for sell orders, maximum sold for buy orders
+  limitAmount: string;
+  slippageBps: number;
+  marketPrice: string;
+  limitPrice: string | undefined;
+  limitPriceOf: "sellToken" | "buyToken";
+  validTo: number;
+  quote: OrderParameters;
+  quoteId: number | undefined;
 };
 
-// Free mainnet RPC, used for ENS resolution
-const mainnetProvider = new ethers.providers.JsonRpcProvider(
-  "https://rpc.ankr.com/eth"
-);
-
-const ERC20_ABI = [
-  // Read-Only Functions
-  "function balanceOf(address owner) view returns (uint256)",
-  "function decimals() view returns (uint8)",
-  "function symbol() view returns (string)",
-  "function allowance(address owner, address spender) view returns (uint256)",
+export const DEFAULT_SLIPPAGE_BPS = 50;
 
-  // Authenticated Functions
-  "function transfer(address to, uint256 amount) returns (bool)",
-  "function approve(address spender, uint256 value) returns (bool)",
+// Limit orders without an explicit validity stay open for a day
+export const DEFAULT_LIMIT_ORDER_VALIDITY = 24 * 60 * 60;
 
-  // Events
-  "event Transfer(address indexed from, address indexed to, uint amount)",
-];
+// Prices are handled as fixed-point numbers with this many decimals
+const PRICE_DECIMALS = 18;
 
-// Helper function to check allowance and submit an approval if necessary
-async function checkAllowanceAndApproveIfNecessary(
+// Helper function to check allowance and submit an approval if necessary.
+// When the policy prefers permits and the token supports them, a permit is
+// signed instead and its encoded call returned, for the spender to execute.
+export async function checkAllowanceAndApproveIfNecessary(
   targetContract: string,
   tokenContract: string,
   signer: ethers.providers.JsonRpcSigner,
-  requiredAmount: ethers.BigNumber
-): Promise<void> {
+  requiredAmount: ethers.BigNumber,
+  policy: ApprovalPolicy,
+  deadline: number
+): Promise<string | undefined> {
   const sellTokenContract = new ethers.Contract(
     tokenContract,
     ERC20_ABI,
     signer
   );
-  console.log(sellTokenContract);
 
   const existingAllowance: ethers.BigNumber = await sellTokenContract.allowance(
     await signer.getAddress(),
     targetContract
   );
   const sellAmountBn = ethers.BigNumber.from(requiredAmount);
+  const amount = approvalAmount(policy, sellAmountBn);
   if (existingAllowance.gte(sellAmountBn)) {
     console.log("existing allowance is sufficient");
-  } else {
-    const sellTokenSigner = sellTokenContract.connect(signer);
-    const tx = await await sellTokenSigner.approve(
-      targetContract,
-      ethers.constants.MaxUint256
+    return undefined;
+  }
+
+  if (policy.usePermit) {
+    const domain = await getPermitDomain(
+      tokenContract,
+      await signer.getChainId(),
+      signer.provider
     );
-    console.log("Sending approval transaction...");
-    // Waiting for the transaction to be mined
-    const receipt = await tx.wait();
-    // The transaction is now on chain!
-    console.log(`Approval finalized in block ${receipt.blockNumber}`);
+    if (domain) {
+      console.log("Signing permit...");
+      return await signPermit(signer, domain, targetContract, amount, deadline);
+    }
   }
+
+  const sellTokenSigner = sellTokenContract.connect(signer);
+  const tx = await sellTokenSigner.approve(targetContract, amount);
+  console.log("Sending approval transaction...");
+  // Waiting for the transaction to be mined
+  const receipt = await tx.wait();
+  // The transaction is now on chain!
+  console.log(`Approval finalized in block ${receipt.blockNumber}`);
+  return undefined;
+}
+
+// App data for an order whose permit is executed as a CoW pre-hook
+function buildPermitAppData(token: Address, permitCallData: string): string {
+  return JSON.stringify({
+    appCode: "txt2txn",
+    metadata: {
+      hooks: {
+        pre: [{ target: token, callData: permitCallData, gasLimit: "100000" }],
+        version: "0.1.0",
+      },
+    },
+    version: "1.1.0",
+  });
 }
 
 export const abbreviateTransactionHash = (hash: string) => {
@@ -123,132 +174,318 @@ export const abbreviateTransactionHash = (hash: string) => {
   return `${hash.slice(0, 6)}...${hash.slice(-4)}`;
 };
 
-export const BACKEND_URL = "http://localhost:8000/";
+// Accepts either a raw address or an ENS name
+// Address book aliases take precedence over ENS names
+export async function resolveRecipient(
+  receiver: string,
+  chain: string,
+  contacts: Contact[] = []
+): Promise<Address> {
+  if (ethers.utils.isAddress(receiver)) {
+    return receiver;
+  }
 
-/**
- * Asynchronously waits for the specified number of milliseconds.
- * @param ms - The number of milliseconds to wait.
- * @returns {Promise<void>} - A Promise that resolves after the specified time.
- */
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve();
-    }, ms);
-  });
+  const contact = findContact(contacts, receiver, chain);
+  if (contact) {
+    return contact.address;
+  }
+
+  const ensProvider = getEnsProvider();
+  if (ensProvider === undefined) {
+    throw new EnsUnavailableError(receiver);
+  }
+  const resolvedName = await ensProvider.resolveName(receiver);
+  if (resolvedName === null) {
+    throw new EnsResolutionError(receiver);
+  }
+  return resolvedName;
+}
+
+export async function previewTransaction(
+  receiver: string,
+  amount: string,
+  chain: string,
+  tokenSymbolOrAddress: string,
+  contacts: Contact[] = []
+): Promise<TransferPreview> {
+  const chainId = getChainId(chain);
+  const token = await resolveToken(
+    chainId,
+    tokenSymbolOrAddress,
+    getReadProvider(chainId)
+  );
+  // fail early on amounts the token can't represent
+  ethers.utils.parseUnits(amount, token.decimals);
+
+  return {
+    recipient: receiver,
+    recipientAddress: await resolveRecipient(receiver, chain, contacts),
+    chain,
+    token,
+    amount,
+  };
 }
 
 export async function sendTransaction(
-  wallets: ConnectedWallet[],
+  adapter: ExecutionAdapter,
   receiver: Address,
   amount: string,
   chain: string,
-  erc20ContractAddress: Address
+  tokenSymbolOrAddress: string
 ): Promise<ethers.providers.TransactionResponse> {
-  if (!wallets[0]) {
+  const { wallet } = adapter;
+  if (!wallet) {
     throw new Error("No wallet is connected!");
   }
 
-  const chainId = supportedChains[chain];
-  if (chainId === undefined) {
-    throw new Error("Unsupported chain");
-  }
+  const chainId = getChainId(chain);
 
-  await wallets[0].switchChain(chainId);
-  const provider = await wallets[0].getEthersProvider();
+  await switchWalletChain(wallet, chainId);
+  const provider = await wallet.getEthersProvider();
   const signer = provider.getSigner();
 
-  const contract = new ethers.Contract(erc20ContractAddress, ERC20_ABI, signer);
-
-  const chainDecimals = decimalConverter[chainId];
-  if (chainDecimals === undefined) {
-    throw new Error(`No decimals for chain: ${chain}`);
-  }
-
-  const decimals = chainDecimals[erc20ContractAddress];
-  if (decimals === undefined) {
-    throw new Error(`No decimals for token: ${erc20ContractAddress}`);
-  }
+  const { address, decimals } = await resolveToken(
+    chainId,
+    tokenSymbolOrAddress,
+    provider
+  );
+  const contract = new ethers.Contract(address, ERC20_ABI, signer);
 
   const amount_decimals = ethers.utils.parseUnits(amount, decimals);
   const contractSigner = contract.connect(signer);
 
-  let receiverAddress = receiver;
-
-  // check if ENS
-  if (!ethers.utils.isAddress(receiver)) {
-    const resolvedName = await mainnetProvider.resolveName(receiver);
-    if (resolvedName === null) {
-      throw new Error("Could not resolve ENS name");
-    }
-    receiverAddress = resolvedName;
-  }
+  const receiverAddress = await resolveRecipient(receiver, chain);
   console.log("Sending transaction...");
   const tx = await contractSigner.transfer(receiverAddress, amount_decimals);
   return tx;
 }
 
-export async function sendOrder(
-  wallets: ConnectedWallet[],
+// Applies slippage to a quoted amount, rounding against the user
+export function applySlippage(
+  amount: ethers.BigNumberish,
+  slippageBps: number,
+  kind: OrderKind
+): ethers.BigNumber {
+  const value = ethers.BigNumber.from(amount);
+  if (kind === OrderKind.SELL) {
+    return value.mul(10000 - slippageBps).div(10000);
+  }
+  return value
+    .mul(10000 + slippageBps)
+    .add(9999)
+    .div(10000);
+}
+
+// Price of `sellAmount` in buy tokens per sell token, as a fixed-point number
+function priceOf(
+  sellAmount: ethers.BigNumber,
+  buyAmount: ethers.BigNumber,
+  sellToken: Token,
+  buyToken: Token
+): ethers.BigNumber {
+  return buyAmount
+    .mul(ethers.BigNumber.from(10).pow(sellToken.decimals + PRICE_DECIMALS))
+    .div(sellAmount.mul(ethers.BigNumber.from(10).pow(buyToken.decimals)));
+}
+
+/**
+ * Amounts of an order at exactly `price` of the `pricedToken`, keeping the
+ * side fixed by `kind`
+ */
+function limitOrderAmounts(
+  kind: OrderKind,
+  sellAmount: ethers.BigNumber,
+  buyAmount: ethers.BigNumber,
+  price: ethers.BigNumber,
+  pricedToken: "sellToken" | "buyToken",
+  sellToken: Token,
+  buyToken: Token
+): { sellAmount: ethers.BigNumber; buyAmount: ethers.BigNumber } {
+  // Buy tokens per sell token, as a ratio of fixed-point numbers
+  const one = ethers.BigNumber.from(10).pow(PRICE_DECIMALS);
+  const [numerator, denominator] =
+    pricedToken === "sellToken" ? [price, one] : [one, price];
+  const sellScale = ethers.BigNumber.from(10)
+    .pow(sellToken.decimals)
+    .mul(denominator);
+  const buyScale = ethers.BigNumber.from(10)
+    .pow(buyToken.decimals)
+    .mul(numerator);
+  if (kind === OrderKind.SELL) {
+    return {
+      sellAmount,
+      buyAmount: sellAmount.mul(buyScale).div(sellScale),
+    };
+  }
+  // Rounded up, so that the price is never better than the limit
+  return {
+    sellAmount: buyAmount.mul(sellScale).add(buyScale).sub(1).div(buyScale),
+    buyAmount,
+  };
+}
+
+export async function previewOrder(
+  adapter: ExecutionAdapter,
   chain: string,
   fromAsset: string,
   toAsset: string,
-  amount: string
-): Promise<string> {
-  const chainId = supportedChains[chain];
-  if (chainId === undefined) {
-    throw new Error("Unsupported chain");
+  amount: string,
+  {
+    kind,
+    slippageBps,
+    limitPrice,
+    limitPriceOf = "sellToken",
+    validFor,
+  }: SwapOptions
+): Promise<SwapPreview> {
+  const chainId = getChainId(chain);
+  if (!isCowSupported(chainId)) {
+    throw new Error(`Swaps are not supported on ${chain}`);
   }
 
-  if (!wallets[0]) {
+  const { wallet } = adapter;
+  if (!wallet) {
     throw new Error("No wallet is connected!");
   }
 
-  await wallets[0].switchChain(chainId);
-
-  const provider = await wallets[0].getEthersProvider();
-  const signer = provider.getSigner();
-  const fromAddress = await signer.getAddress();
-
-  const chainDecimals = decimalConverter[chainId];
-  if (chainDecimals === undefined) {
-    throw new Error(`No decimals for chain: ${chain}`);
+  const fromAddress = wallet.address;
+  const readProvider = getReadProvider(chainId);
+  const sellToken = await resolveToken(chainId, fromAsset, readProvider);
+  const buyToken = await resolveToken(chainId, toAsset, readProvider);
+
+  const quoteRequest: OrderQuoteRequest =
+    kind === OrderKind.SELL
+      ? {
+          sellToken: sellToken.address,
+          buyToken: buyToken.address,
+          from: fromAddress,
+          receiver: fromAddress,
+          sellAmountBeforeFee: ethers.utils
+            .parseUnits(amount, sellToken.decimals)
+            .toString(),
+          kind: OrderQuoteSideKindSell.SELL,
+        }
+      : {
+          sellToken: sellToken.address,
+          buyToken: buyToken.address,
+          from: fromAddress,
+          receiver: fromAddress,
+          buyAmountAfterFee: ethers.utils
+            .parseUnits(amount, buyToken.decimals)
+            .toString(),
+          kind: OrderQuoteSideKindBuy.BUY,
+        };
+
+  const orderBookApi = adapter.getOrderBook(chainId);
+  const { quote, id } = await orderBookApi.getQuote(quoteRequest);
+  if (validFor !== undefined || limitPrice !== undefined) {
+    quote.validTo =
+      Math.floor(Date.now() / 1000) +
+      (validFor ?? DEFAULT_LIMIT_ORDER_VALIDITY);
   }
 
-  const decimals = chainDecimals[fromAsset];
-  if (decimals === undefined) {
-    throw new Error(`No decimals for token: ${fromAsset}`);
+  // The fee is folded into the sell amount, so that the signed order is
+  // fee-less
+  const sellAmount = ethers.BigNumber.from(quote.sellAmount).add(
+    quote.feeAmount
+  );
+  const buyAmount = ethers.BigNumber.from(quote.buyAmount);
+  quote.feeAmount = "0";
+  let quoteId = id;
+  let limitAmount: string;
+  if (limitPrice !== undefined) {
+    const limit = limitOrderAmounts(
+      kind,
+      sellAmount,
+      buyAmount,
+      ethers.utils.parseUnits(limitPrice, PRICE_DECIMALS),
+      limitPriceOf,
+      sellToken,
+      buyToken
+    );
+    quote.sellAmount = limit.sellAmount.toString();
+    quote.buyAmount = limit.buyAmount.toString();
+    limitAmount =
+      kind === OrderKind.SELL
+        ? ethers.utils.formatUnits(quote.buyAmount, buyToken.decimals)
+        : ethers.utils.formatUnits(quote.sellAmount, sellToken.decimals);
+    // Limit orders aren't bound to the market quote
+    quoteId = undefined;
+  } else if (kind === OrderKind.SELL) {
+    quote.sellAmount = sellAmount.toString();
+    quote.buyAmount = applySlippage(buyAmount, slippageBps, kind).toString();
+    limitAmount = ethers.utils.formatUnits(quote.buyAmount, buyToken.decimals);
+  } else {
+    quote.sellAmount = applySlippage(sellAmount, slippageBps, kind).toString();
+    limitAmount = ethers.utils.formatUnits(
+      quote.sellAmount,
+      sellToken.decimals
+    );
   }
 
-  const amountDecimals = ethers.utils.parseUnits(amount, decimals).toString();
-  const slippage = 0.05;
-
-  const quoteRequest: OrderQuoteRequest = {
-    sellToken: fromAsset,
-    buyToken: toAsset,
+  return {
+    chain,
     from: fromAddress,
-    receiver: fromAddress,
-    sellAmountBeforeFee: amountDecimals,
-    kind: OrderQuoteSideKindSell.SELL,
+    kind,
+    sellToken,
+    buyToken,
+    sellAmount: ethers.utils.formatUnits(sellAmount, sellToken.decimals),
+    buyAmount: ethers.utils.formatUnits(buyAmount, buyToken.decimals),
+    limitAmount,
+    slippageBps,
+    marketPrice: ethers.utils.formatUnits(
+      priceOf(sellAmount, buyAmount, sellToken, buyToken),
+      PRICE_DECIMALS
+    ),
+    limitPrice,
+    limitPriceOf,
+    validTo: quote.validTo,
+    quote,
+    quoteId,
   };
+}
+
+export async function sendOrder(
+  adapter: ExecutionAdapter,
+  preview: SwapPreview,
+  approvalPolicy: ApprovalPolicy
+): Promise<string> {
+  const chainId = getChainId(preview.chain);
+
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
+  }
+
+  await switchWalletChain(wallet, chainId);
+
+  const provider = await wallet.getEthersProvider();
+  const signer = provider.getSigner();
+  const fromAddress = await signer.getAddress();
+  if (fromAddress.toLowerCase() !== preview.from.toLowerCase()) {
+    throw new Error("Connected wallet does not match the quoted order");
+  }
+
+  const quote = { ...preview.quote };
 
   const vaultAddr =
     COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId];
-  await checkAllowanceAndApproveIfNecessary(
+  const permitCallData = await checkAllowanceAndApproveIfNecessary(
     vaultAddr,
-    fromAsset,
+    quote.sellToken,
     signer,
-    ethers.BigNumber.from(amountDecimals)
+    ethers.BigNumber.from(quote.sellAmount),
+    approvalPolicy,
+    quote.validTo
   );
 
-  const orderBookApi = new OrderBookApi({ chainId: chainId });
-  const { quote, ...quoteParams } = await orderBookApi.getQuote(quoteRequest);
+  let appData: string = quote.appData;
+  if (permitCallData) {
+    appData = buildPermitAppData(quote.sellToken, permitCallData);
+    quote.appData = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(appData));
+  }
 
-  quote.feeAmount = "0";
-  quote.sellAmount = amountDecimals;
-  quote.buyAmount = Math.round(
-    Number(quote.buyAmount) * (1 - slippage)
-  ).toString();
+  const orderBookApi = adapter.getOrderBook(chainId);
 
   const orderSigningResult = await OrderSigningUtils.signOrder(
     { ...quote, receiver: fromAddress },
@@ -260,29 +497,101 @@ export async function sendOrder(
     ...quote,
     ...orderSigningResult,
     signingScheme: SigningScheme.EIP712,
-    quoteId: quoteParams.id,
+    quoteId: preview.quoteId,
     from: fromAddress,
+    appData,
+    appDataHash: quote.appData,
   };
 
   return await orderBookApi.sendOrder(orderObj);
 }
 
-export async function waitForOrderStatus(
-  orderId: string,
+export type OpenOrder = {
+  uid: string;
+  chain: string;
+  sellToken: Token;
+  buyToken: Token;
+  sellAmount: string;
+  buyAmount: string;
+  kind: OrderKind;
+  validTo: number;
+};
+
+// Open CoW orders of `owner` on the given chain
+export async function getOpenOrders(
+  adapter: ExecutionAdapter,
+  owner: Address,
   chain: string
-): Promise<OrderStatus> {
-  const chainId = supportedChains[chain];
-  if (chainId === undefined) {
-    throw new Error("Unsupported chain");
+): Promise<OpenOrder[]> {
+  const chainId = getChainId(chain);
+  if (!isCowSupported(chainId)) {
+    return [];
   }
 
-  const orderBookApi = new OrderBookApi({ chainId: chainId });
-  let orderStatus: OrderStatus = OrderStatus.OPEN;
-  while (orderStatus == OrderStatus.OPEN) {
-    // wait three seconds
-    await sleep(3000);
-    const enrichedOrder = await orderBookApi.getOrder(orderId);
-    orderStatus = enrichedOrder.status;
+  const orderBookApi = adapter.getOrderBook(chainId);
+  const orders = await orderBookApi.getOrders({ owner });
+  const readProvider = getReadProvider(chainId);
+  return await Promise.all(
+    orders
+      .filter(({ status }) => status === OrderStatus.OPEN)
+      .map(async (order) => {
+        const sellToken = await resolveToken(
+          chainId,
+          order.sellToken,
+          readProvider
+        );
+        const buyToken = await resolveToken(
+          chainId,
+          order.buyToken,
+          readProvider
+        );
+        return {
+          uid: order.uid,
+          chain,
+          sellToken,
+          buyToken,
+          sellAmount: ethers.utils.formatUnits(
+            order.sellAmount,
+            sellToken.decimals
+          ),
+          buyAmount: ethers.utils.formatUnits(
+            order.buyAmount,
+            buyToken.decimals
+          ),
+          kind: order.kind,
+          validTo: order.validTo,
+        };
+      })
+  );
+}
+
+// Cancels an order off-chain, with a cancellation signed by its owner
+export async function cancelOrder(
+  adapter: ExecutionAdapter,
+  orderId: string,
+  chain: string
+): Promise<void> {
+  const chainId = getChainId(chain);
+
+  const { wallet } = adapter;
+  if (!wallet) {
+    throw new Error("No wallet is connected!");
   }
-  return orderStatus;
+
+  await switchWalletChain(wallet, chainId);
+  const provider = await wallet.getEthersProvider();
+  const signer = provider.getSigner();
+
+  const { signature, signingScheme } =
+    await OrderSigningUtils.signOrderCancellations(
+      [orderId],
+      chainId as SupportedChainId,
+      signer
+    );
+  const orderBookApi = adapter.getOrderBook(chainId);
+  await orderBookApi.sendSignedOrderCancellations({
+    orderUids: [orderId],
+    signature,
+    signingScheme,
+  });
 }
@@ -0,0 +1,92 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { readStorage, storageKey, writeStorage } from "./storage";
+
+/**
+ * The wallets connected through Privy, such as its embedded wallet next to
+ * MetaMask or a Ledger, and which of them sends.
+ */
+
+const SELECTED_WALLET_KEY = storageKey("selected-wallet");
+
+export const walletLabel = (wallet: ConnectedWallet) =>
+  wallet.walletClientType === "privy"
+    ? "Privy embedded wallet"
+    : wallet.meta.name;
+
+// Privy reports the chain in CAIP-2 form, e.g. "eip155:11155111"
+export function walletChainId(wallet: ConnectedWallet): number | undefined {
+  const chainId = Number(wallet.chainId.split(":").pop());
+  return Number.isInteger(chainId) ? chainId : undefined;
+}
+
+export const loadSelectedWallet = () =>
+  readStorage<string | undefined>(SELECTED_WALLET_KEY, undefined);
+
+export const saveSelectedWallet = (address: string) =>
+  writeStorage(SELECTED_WALLET_KEY, address);
+
+/**
+ * The wallet named in phrases like "from my ledger wallet" or "using my
+ * MetaMask wallet", if any.
+ */
+export function walletPhrase(text: string): string | undefined {
+  const named =
+    /\b(?:from|with|using|via)\s+(?:my|the)\s+(.+?)\s+wallet\b/i.exec(text);
+  return named?.[1];
+}
+
+const normalize = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * The connected wallets whose client, name or connector is `name`, or has
+ * it as a whole word, so that "ledger" matches "Ledger Live" but "meta"
+ * doesn't match MetaMask. More than one means `name` is ambiguous.
+ */
+export function findWallets(
+  wallets: ConnectedWallet[],
+  name: string
+): ConnectedWallet[] {
+  const wanted = normalize(name);
+  if (wanted === "") {
+    return [];
+  }
+  return wallets.filter((wallet) =>
+    [
+      walletLabel(wallet),
+      wallet.meta.name,
+      wallet.walletClientType,
+      wallet.connectorType,
+    ].some(
+      (candidate) =>
+        normalize(candidate) === wanted ||
+        candidate
+          .split(/[^a-z0-9]+/i)
+          .map(normalize)
+          .includes(wanted)
+    )
+  );
+}